@@ -10,6 +10,7 @@ export interface PropInfo {
   description?: string;
   inherited?: boolean;
   inheritedFrom?: string;
+  allowedValues?: Array<string | number | boolean>;
 }
 
 export interface MethodInfo {
@@ -159,7 +160,13 @@ export function generateArgTypes(
       }
 
       // Auto-detect control types
-      if (prop.type === 'boolean') {
+      if (prop.allowedValues && prop.allowedValues.length > 0) {
+        // Resolved option set (literal unions, enums, as const arrays)
+        argTypes[prop.name].control = {
+          type: prop.allowedValues.length <= 5 ? 'radio' : 'select',
+          options: prop.allowedValues,
+        };
+      } else if (prop.type === 'boolean') {
         argTypes[prop.name].control = { type: 'boolean' };
       } else if (prop.type === 'number') {
         argTypes[prop.name].control = { type: 'number' };
@@ -0,0 +1,311 @@
+/**
+ * Resolves prop types into their enumerated allowed values:
+ * literal unions, enum declarations and `as const` arrays/objects, following relative imports
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { TypeScriptParser } from './ts-parser.js';
+import { SourceExtractor } from './source-extractor.js';
+import { AllowedValue, PropInfo } from './types.js';
+
+interface ResolveContext {
+  sourceFile: ts.SourceFile;
+  dir?: string;
+}
+
+export class AllowedValuesResolver {
+  private fileCache = new Map<string, ResolveContext | null>();
+
+  /**
+   * Fill allowedValues on props whose type resolves to a finite set of literals
+   * @param props - Props declared in the source file
+   * @param sourceCode - Source of the file declaring the props
+   * @param dir - Directory of that file, used to follow relative imports
+   */
+  apply(props: PropInfo[], sourceCode: string, dir?: string): void {
+    const context: ResolveContext = { sourceFile: TypeScriptParser.createSourceFile(sourceCode), dir };
+
+    for (const prop of props) {
+      if (prop.allowedValues || prop.type.includes('=>')) {
+        continue;
+      }
+
+      const values = this.resolveTypeText(prop.type, context);
+      if (values) {
+        prop.allowedValues = values;
+      }
+    }
+  }
+
+  /**
+   * Resolve a type written as text in the scope of a source file
+   */
+  resolveTypeText(typeText: string, context: ResolveContext): AllowedValue[] | null {
+    const holder = TypeScriptParser.createSourceFile(`type __Allowed = ${typeText};`);
+    const statement = holder.statements[0];
+    if (!statement || !ts.isTypeAliasDeclaration(statement)) {
+      return null;
+    }
+
+    const values = this.resolveTypeNode(statement.type, holder, context, 0);
+    if (!values || values.length === 0) {
+      return null;
+    }
+
+    // A plain boolean is not an enumeration
+    if (values.every(v => typeof v === 'boolean')) {
+      return null;
+    }
+
+    return [...new Set(values)];
+  }
+
+  /**
+   * @param node - Type node to resolve
+   * @param nodeFile - File the node belongs to (for getText)
+   * @param context - Scope used to look up referenced declarations
+   */
+  private resolveTypeNode(node: ts.TypeNode, nodeFile: ts.SourceFile, context: ResolveContext, depth: number): AllowedValue[] | null {
+    if (depth > 10) {
+      return null;
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) {
+      return this.resolveTypeNode(node.type, nodeFile, context, depth + 1);
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+      const values: AllowedValue[] = [];
+      for (const member of node.types) {
+        // undefined / null mean "not set", not an option
+        if (member.kind === ts.SyntaxKind.UndefinedKeyword ||
+            (ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword)) {
+          continue;
+        }
+        const memberValues = this.resolveTypeNode(member, nodeFile, context, depth + 1);
+        if (!memberValues) {
+          return null;
+        }
+        values.push(...memberValues);
+      }
+      return values;
+    }
+
+    if (ts.isLiteralTypeNode(node)) {
+      const literal = node.literal;
+      if (ts.isStringLiteral(literal) || ts.isNoSubstitutionTemplateLiteral(literal)) return [literal.text];
+      if (ts.isNumericLiteral(literal)) return [Number(literal.text)];
+      if (ts.isPrefixUnaryExpression(literal) && ts.isNumericLiteral(literal.operand)) return [-Number(literal.operand.text)];
+      if (literal.kind === ts.SyntaxKind.TrueKeyword) return [true];
+      if (literal.kind === ts.SyntaxKind.FalseKeyword) return [false];
+      return null;
+    }
+
+    if (node.kind === ts.SyntaxKind.BooleanKeyword) {
+      return [true, false];
+    }
+
+    if (ts.isTypeReferenceNode(node)) {
+      // ButtonType.Primary - a single enum member
+      if (ts.isQualifiedName(node.typeName)) {
+        const enumValues = this.resolveEnum(node.typeName.left.getText(nodeFile), context, depth);
+        const member = node.typeName.right.text;
+        return enumValues && member in enumValues ? [enumValues[member]] : null;
+      }
+
+      const name = node.typeName.text;
+      const declaration = this.findDeclaration(name, context, depth);
+      if (!declaration) {
+        return null;
+      }
+
+      if (ts.isEnumDeclaration(declaration.node)) {
+        return Object.values(this.readEnum(declaration.node));
+      }
+      if (ts.isTypeAliasDeclaration(declaration.node)) {
+        return this.resolveTypeNode(declaration.node.type, declaration.context.sourceFile, declaration.context, depth + 1);
+      }
+      return null;
+    }
+
+    // (typeof SIZES)[number] and (typeof VARIANTS)[keyof typeof VARIANTS]
+    if (ts.isIndexedAccessTypeNode(node)) {
+      const objectType = ts.isParenthesizedTypeNode(node.objectType) ? node.objectType.type : node.objectType;
+      if (!ts.isTypeQueryNode(objectType)) {
+        return null;
+      }
+
+      const initializer = this.findConstInitializer(objectType.exprName.getText(nodeFile), context, depth);
+      if (!initializer) {
+        return null;
+      }
+
+      if (ts.isArrayLiteralExpression(initializer)) {
+        return this.readLiterals(initializer.elements);
+      }
+      if (ts.isObjectLiteralExpression(initializer)) {
+        return this.readLiterals(initializer.properties
+          .filter(ts.isPropertyAssignment)
+          .map(p => p.initializer));
+      }
+      return null;
+    }
+
+    // keyof typeof VARIANTS
+    if (ts.isTypeOperatorNode(node) && node.operator === ts.SyntaxKind.KeyOfKeyword && ts.isTypeQueryNode(node.type)) {
+      const initializer = this.findConstInitializer(node.type.exprName.getText(nodeFile), context, depth);
+      if (initializer && ts.isObjectLiteralExpression(initializer)) {
+        return initializer.properties.flatMap(property => {
+          if (!property.name) return [];
+          return [ts.isStringLiteral(property.name) || ts.isIdentifier(property.name)
+            ? property.name.text
+            : property.name.getText()];
+        });
+      }
+      return null;
+    }
+
+    return null;
+  }
+
+  private readLiterals(expressions: readonly ts.Expression[]): AllowedValue[] | null {
+    const values: AllowedValue[] = [];
+    for (const expression of expressions) {
+      if (ts.isStringLiteralLike(expression)) values.push(expression.text);
+      else if (ts.isNumericLiteral(expression)) values.push(Number(expression.text));
+      else if (expression.kind === ts.SyntaxKind.TrueKeyword) values.push(true);
+      else if (expression.kind === ts.SyntaxKind.FalseKeyword) values.push(false);
+      else return null;
+    }
+    return values;
+  }
+
+  private resolveEnum(name: string, context: ResolveContext, depth: number): Record<string, AllowedValue> | null {
+    const declaration = this.findDeclaration(name, context, depth);
+    return declaration && ts.isEnumDeclaration(declaration.node) ? this.readEnum(declaration.node) : null;
+  }
+
+  /**
+   * Enum member values, numbering members without initializers like the compiler does
+   */
+  private readEnum(declaration: ts.EnumDeclaration): Record<string, AllowedValue> {
+    const values: Record<string, AllowedValue> = {};
+    let next = 0;
+
+    for (const member of declaration.members) {
+      const name = member.name.getText();
+      if (member.initializer && ts.isStringLiteralLike(member.initializer)) {
+        values[name] = member.initializer.text;
+      } else if (member.initializer && ts.isNumericLiteral(member.initializer)) {
+        next = Number(member.initializer.text);
+        values[name] = next++;
+      } else {
+        values[name] = next++;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Initializer of `const X = [...] as const` / `const X = {...} as const`
+   */
+  private findConstInitializer(name: string, context: ResolveContext, depth: number): ts.Expression | null {
+    const declaration = this.findDeclaration(name, context, depth);
+    if (!declaration || !ts.isVariableDeclaration(declaration.node) || !declaration.node.initializer) {
+      return null;
+    }
+
+    let initializer = declaration.node.initializer;
+    while (ts.isAsExpression(initializer) || ts.isParenthesizedExpression(initializer) || ts.isSatisfiesExpression(initializer)) {
+      initializer = initializer.expression;
+    }
+    return initializer;
+  }
+
+  /**
+   * Find a type alias, enum or variable by name in a file, following named imports
+   */
+  private findDeclaration(name: string, context: ResolveContext, depth: number): {
+    node: ts.TypeAliasDeclaration | ts.EnumDeclaration | ts.VariableDeclaration;
+    context: ResolveContext;
+  } | null {
+    for (const statement of context.sourceFile.statements) {
+      if ((ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) && statement.name.text === name) {
+        return { node: statement, context };
+      }
+
+      if (ts.isVariableStatement(statement)) {
+        const declaration = statement.declarationList.declarations.find(d => ts.isIdentifier(d.name) && d.name.text === name);
+        if (declaration) {
+          return { node: declaration, context };
+        }
+      }
+    }
+
+    if (depth > 10 || !context.dir) {
+      return null;
+    }
+
+    // import { ButtonType } from './button.types' / export { ButtonType } from './types'
+    for (const statement of context.sourceFile.statements) {
+      let specifier: ts.Expression | undefined;
+      let importedName: string | undefined;
+
+      if (ts.isImportDeclaration(statement) && statement.importClause?.namedBindings &&
+          ts.isNamedImports(statement.importClause.namedBindings)) {
+        const element = statement.importClause.namedBindings.elements.find(e => e.name.text === name);
+        if (element) {
+          specifier = statement.moduleSpecifier;
+          importedName = (element.propertyName ?? element.name).text;
+        }
+      } else if (ts.isExportDeclaration(statement) && statement.moduleSpecifier) {
+        if (!statement.exportClause) {
+          specifier = statement.moduleSpecifier;
+          importedName = name;
+        } else if (ts.isNamedExports(statement.exportClause)) {
+          const element = statement.exportClause.elements.find(e => e.name.text === name);
+          if (element) {
+            specifier = statement.moduleSpecifier;
+            importedName = (element.propertyName ?? element.name).text;
+          }
+        }
+      }
+
+      if (!specifier || !importedName || !ts.isStringLiteral(specifier) || !specifier.text.startsWith('.')) {
+        continue;
+      }
+
+      const imported = this.loadModule(path.resolve(context.dir, specifier.text));
+      if (imported) {
+        const found = this.findDeclaration(importedName, imported, depth + 1);
+        if (found) {
+          return found;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Load a sibling module from .ts/.tsx/.d.ts or the sourcesContent of its .js.map
+   */
+  private loadModule(basePath: string): ResolveContext | null {
+    if (this.fileCache.has(basePath)) {
+      return this.fileCache.get(basePath)!;
+    }
+
+    let context: ResolveContext | null = null;
+    const modulePath = SourceExtractor.resolveModulePath(basePath);
+    const content = modulePath ? SourceExtractor.readSourceFile(modulePath) : null;
+
+    if (modulePath && content) {
+      context = { sourceFile: TypeScriptParser.createSourceFile(content), dir: path.dirname(modulePath) };
+    }
+
+    this.fileCache.set(basePath, context);
+    return context;
+  }
+}
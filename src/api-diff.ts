@@ -0,0 +1,360 @@
+/**
+ * Compares two snapshots of generated ComponentDoc JSON and classifies every API change
+ * as breaking or non-breaking
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentDoc, EventInfo, MethodInfo, ParameterInfo, PropInfo, StyleInfo } from './types.js';
+
+export type ApiItemKind = 'component' | 'prop' | 'method' | 'event' | 'style';
+
+export interface ApiChange {
+  component: string;
+  kind: ApiItemKind;
+  name: string;
+  change: 'added' | 'removed' | 'changed' | 'deprecated';
+  breaking: boolean;
+  detail: string;
+}
+
+/**
+ * A change of one item, before the component, kind and name are attached
+ */
+type ItemChange = Pick<ApiChange, 'change' | 'breaking' | 'detail'>;
+
+export interface ApiDiffResult {
+  changes: ApiChange[];
+  breaking: number;
+  nonBreaking: number;
+  /**
+   * Components with at least one change
+   */
+  components: string[];
+}
+
+/**
+ * Files in an output directory that are not component docs
+ */
+const NON_COMPONENT_FILES = ['tokens.json', 'all-components.json'];
+
+export class ApiDiff {
+  /**
+   * Read a snapshot: a directory of <component>.json files or a single all-components.json
+   */
+  static loadSnapshot(snapshotPath: string): ComponentDoc[] {
+    if (!fs.existsSync(snapshotPath)) {
+      throw new Error(`Snapshot not found: ${snapshotPath}`);
+    }
+
+    if (fs.statSync(snapshotPath).isDirectory()) {
+      return fs.readdirSync(snapshotPath)
+        .filter(file => file.endsWith('.json') && !file.startsWith('.') && !NON_COMPONENT_FILES.includes(file))
+        .map(file => JSON.parse(fs.readFileSync(path.join(snapshotPath, file), 'utf-8')) as ComponentDoc)
+        .filter(doc => doc && typeof doc.componentName === 'string');
+    }
+
+    const docs = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as ComponentDoc[];
+    if (!Array.isArray(docs)) {
+      throw new Error(`${snapshotPath} is not a list of component docs`);
+    }
+    return docs;
+  }
+
+  /**
+   * Every change between two snapshots, grouped by component in name order
+   */
+  static compare(before: ComponentDoc[], after: ComponentDoc[]): ApiDiffResult {
+    const beforeByName = new Map(this.flatten(before).map(doc => [doc.componentName, doc]));
+    const afterByName = new Map(this.flatten(after).map(doc => [doc.componentName, doc]));
+    const names = [...new Set([...beforeByName.keys(), ...afterByName.keys()])].sort();
+    const changes: ApiChange[] = [];
+
+    for (const name of names) {
+      const oldDoc = beforeByName.get(name);
+      const newDoc = afterByName.get(name);
+
+      if (!newDoc) {
+        changes.push({ component: name, kind: 'component', name, change: 'removed', breaking: true, detail: 'component removed' });
+      } else if (!oldDoc) {
+        changes.push({ component: name, kind: 'component', name, change: 'added', breaking: false, detail: 'component added' });
+      } else {
+        changes.push(
+          ...this.compareItems(name, 'prop', oldDoc.props, newDoc.props, p => p.name, (a, b) => this.compareProp(a, b)),
+          ...this.compareItems(name, 'method', oldDoc.methods, newDoc.methods, m => m.name, (a, b) => this.compareMethod(a, b)),
+          ...this.compareItems(name, 'event', oldDoc.events, newDoc.events, e => e.name, (a, b) => this.compareEvent(a, b)),
+          ...this.compareItems(name, 'style', oldDoc.styles, newDoc.styles, s => s.className, (a, b) => this.compareStyle(a, b)),
+        );
+      }
+    }
+
+    return {
+      changes,
+      breaking: changes.filter(c => c.breaking).length,
+      nonBreaking: changes.filter(c => !c.breaking).length,
+      components: [...new Set(changes.map(c => c.component))],
+    };
+  }
+
+  static formatText(result: ApiDiffResult): string {
+    const lines = [`API diff: ${result.breaking} breaking, ${result.nonBreaking} non-breaking changes in ${result.components.length} components`];
+
+    for (const component of result.components) {
+      lines.push('', component);
+      for (const change of result.changes.filter(c => c.component === component)) {
+        const mark = change.breaking ? '✗' : change.change === 'added' ? '+' : '~';
+        const item = change.kind === 'component' ? '' : `${change.kind} ${change.name}: `;
+        lines.push(`  ${mark} ${item}${change.detail}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  static formatMarkdown(result: ApiDiffResult): string {
+    const lines = [
+      '# API changes',
+      '',
+      `${result.breaking} breaking, ${result.nonBreaking} non-breaking changes in ${result.components.length} components.`,
+    ];
+
+    for (const component of result.components) {
+      lines.push('', `## ${component}`, '', '| | Kind | Name | Change |', '|---|---|---|---|');
+      for (const change of result.changes.filter(c => c.component === component)) {
+        const detail = change.detail.replace(/\|/g, '\\|');
+        lines.push(`| ${change.breaking ? '**Breaking**' : ''} | ${change.kind} | \`${change.name}\` | ${detail} |`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  static formatJson(result: ApiDiffResult): string {
+    return JSON.stringify(result, null, 2);
+  }
+
+  /**
+   * Children are compared as components of their own when they aren't documented at the top level
+   */
+  private static flatten(docs: ComponentDoc[]): ComponentDoc[] {
+    const byName = new Map(docs.map(doc => [doc.componentName, doc]));
+    const addChildren = (doc: ComponentDoc) => doc.children?.forEach(child => {
+      if (!byName.has(child.componentName)) {
+        byName.set(child.componentName, child);
+      }
+      addChildren(child);
+    });
+
+    docs.forEach(addChildren);
+    return [...byName.values()];
+  }
+
+  /**
+   * Added, removed and changed items of one kind, matched by name
+   */
+  private static compareItems<T>(
+    component: string,
+    kind: ApiItemKind,
+    before: T[],
+    after: T[],
+    nameOf: (item: T) => string,
+    compareItem: (before: T, after: T) => Array<ItemChange>
+  ): ApiChange[] {
+    const changes: ApiChange[] = [];
+    const afterByName = new Map(after.map(item => [nameOf(item), item]));
+    const beforeNames = new Set(before.map(nameOf));
+
+    for (const item of before) {
+      const name = nameOf(item);
+      const updated = afterByName.get(name);
+      if (!updated) {
+        changes.push({ component, kind, name, change: 'removed', breaking: true, detail: `${kind} removed` });
+      } else {
+        changes.push(...compareItem(item, updated).map(change => ({ component, kind, name, ...change })));
+      }
+    }
+
+    for (const item of after) {
+      const name = nameOf(item);
+      if (!beforeNames.has(name)) {
+        // A new required prop breaks every existing usage
+        const required = kind === 'prop' && this.isRequired(item as unknown as PropInfo);
+        changes.push({
+          component, kind, name, change: 'added', breaking: required,
+          detail: required ? 'required prop added' : `${kind} added`,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private static compareProp(before: PropInfo, after: PropInfo): Array<ItemChange> {
+    const changes: Array<ItemChange> = [];
+
+    const typeChange = this.compareTypes(before.type, after.type);
+    if (typeChange) {
+      changes.push(typeChange);
+    }
+
+    // An alias such as ButtonSize can keep its name while its values change
+    if (before.allowedValues && after.allowedValues) {
+      const removed = before.allowedValues.filter(v => !after.allowedValues!.includes(v));
+      const added = after.allowedValues.filter(v => !before.allowedValues!.includes(v));
+      if (removed.length > 0) {
+        changes.push({ change: 'changed', breaking: true, detail: `allowed values removed: ${removed.map(v => JSON.stringify(v)).join(', ')}` });
+      }
+      if (added.length > 0) {
+        changes.push({ change: 'changed', breaking: false, detail: `allowed values added: ${added.map(v => JSON.stringify(v)).join(', ')}` });
+      }
+    }
+
+    if (!this.isRequired(before) && this.isRequired(after)) {
+      changes.push({ change: 'changed', breaking: true, detail: 'became required' });
+    } else if (this.isRequired(before) && !this.isRequired(after)) {
+      changes.push({ change: 'changed', breaking: false, detail: 'became optional' });
+    }
+
+    if ((before.defaultValue ?? '') !== (after.defaultValue ?? '')) {
+      changes.push({ change: 'changed', breaking: false, detail: `default changed: ${before.defaultValue ?? '(none)'} → ${after.defaultValue ?? '(none)'}` });
+    }
+
+    changes.push(...this.compareDeprecation(before, after));
+    return changes;
+  }
+
+  /**
+   * Props classes declare fields without `?`, but a field with a default never has to be passed
+   */
+  private static isRequired(prop: PropInfo): boolean {
+    return !prop.optional && prop.defaultValue === undefined;
+  }
+
+  private static compareMethod(before: MethodInfo, after: MethodInfo): Array<ItemChange> {
+    const changes: Array<ItemChange> = [];
+    const signature = (method: MethodInfo) =>
+      `(${method.parameters.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type}`).join(', ')}): ${method.returnType}`;
+
+    if (signature(before) !== signature(after)) {
+      // Appending optional parameters keeps every existing call valid
+      const compatible = before.returnType === after.returnType &&
+        before.parameters.every((p, i) => after.parameters[i] && after.parameters[i].type === p.type && (!after.parameters[i].optional || p.optional)) &&
+        after.parameters.slice(before.parameters.length).every(p => p.optional);
+
+      changes.push({ change: 'changed', breaking: !compatible, detail: `signature changed: ${signature(before)} → ${signature(after)}` });
+    }
+
+    if (before.visibility === 'public' && after.visibility !== 'public') {
+      changes.push({ change: 'changed', breaking: true, detail: `became ${after.visibility}` });
+    }
+
+    changes.push(...this.compareDeprecation(before, after));
+    return changes;
+  }
+
+  private static compareEvent(before: EventInfo, after: EventInfo): Array<ItemChange> {
+    const changes: Array<ItemChange> = [];
+    const args = (event: EventInfo): ParameterInfo[] => event.args ?? [];
+
+    if (before.args && after.args) {
+      // Handlers may ignore extra arguments, but lose ones they read
+      const removed = args(before).filter(arg => !args(after).some(a => a.name === arg.name));
+      const retyped = args(before).filter(arg => args(after).some(a => a.name === arg.name && a.type !== arg.type));
+      const added = args(after).filter(arg => !args(before).some(a => a.name === arg.name));
+
+      if (removed.length > 0) {
+        changes.push({ change: 'changed', breaking: true, detail: `arguments removed: ${removed.map(a => a.name).join(', ')}` });
+      }
+      retyped.forEach(arg => {
+        const type = args(after).find(a => a.name === arg.name)!.type;
+        changes.push({ change: 'changed', breaking: true, detail: `argument ${arg.name} type changed: ${arg.type} → ${type}` });
+      });
+      if (added.length > 0) {
+        changes.push({ change: 'changed', breaking: false, detail: `arguments added: ${added.map(a => a.name).join(', ')}` });
+      }
+    } else if ((before.parameters ?? '') !== (after.parameters ?? '')) {
+      changes.push({ change: 'changed', breaking: true, detail: `parameters changed: ${before.parameters ?? '()'} → ${after.parameters ?? '()'}` });
+    }
+
+    changes.push(...this.compareDeprecation(before, after));
+    return changes;
+  }
+
+  private static compareStyle(before: StyleInfo, after: StyleInfo): Array<ItemChange> {
+    if (JSON.stringify(before.properties ?? {}) !== JSON.stringify(after.properties ?? {}) || before.extends !== after.extends) {
+      return [{ change: 'changed', breaking: false, detail: 'style rules changed' }];
+    }
+    return [];
+  }
+
+  private static compareDeprecation(
+    before: { deprecated?: boolean },
+    after: { deprecated?: boolean; deprecationMessage?: string }
+  ): Array<ItemChange> {
+    if (!before.deprecated && after.deprecated) {
+      return [{ change: 'deprecated', breaking: false, detail: `deprecated${after.deprecationMessage ? `: ${after.deprecationMessage}` : ''}` }];
+    }
+    if (before.deprecated && !after.deprecated) {
+      return [{ change: 'changed', breaking: false, detail: 'no longer deprecated' }];
+    }
+    return [];
+  }
+
+  /**
+   * Union members added only widen a type; members removed narrow it (breaking);
+   * anything else is a change of type (breaking)
+   */
+  private static compareTypes(before: string, after: string): ItemChange | null {
+    const normalize = (type: string) => type.replace(/\s+/g, ' ').replace(/"/g, "'").trim();
+    if (normalize(before) === normalize(after)) {
+      return null;
+    }
+
+    const oldMembers = this.splitUnion(normalize(before));
+    const newMembers = this.splitUnion(normalize(after));
+    const removed = oldMembers.filter(m => !newMembers.includes(m));
+    const added = newMembers.filter(m => !oldMembers.includes(m));
+    const detail = `${before} → ${after}`;
+
+    if (removed.length === 0) {
+      return { change: 'changed', breaking: false, detail: `type widened: ${detail}` };
+    }
+    if (added.length === 0) {
+      return { change: 'changed', breaking: true, detail: `type narrowed: ${detail}` };
+    }
+    return { change: 'changed', breaking: true, detail: `type changed: ${detail}` };
+  }
+
+  /**
+   * Top-level members of a union type, ignoring | inside brackets, generics and strings
+   */
+  static splitUnion(type: string): string[] {
+    const members: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+    let previous = '';
+
+    for (const char of type) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === "'" || char === '`') {
+        quote = char;
+      } else if ('([{<'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char) || (char === '>' && previous !== '=')) {
+        depth--;
+      } else if (char === '|' && depth === 0) {
+        members.push(current.trim());
+        current = '';
+        previous = char;
+        continue;
+      }
+      current += char;
+      previous = char;
+    }
+
+    members.push(current.trim());
+    return members.filter(Boolean).sort();
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Detects parent-child component relationships from source: parent casts, shared contexts,
+ * JSX nesting, folder nesting and naming patterns
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { TypeScriptParser } from './ts-parser.js';
+import { ComponentSources } from './types.js';
+
+export type ChildSignalType =
+  | 'parent-reference'
+  | 'context'
+  | 'rendered-inside'
+  | 'nested-folder'
+  | 'naming';
+
+export interface ChildSignal {
+  type: ChildSignalType;
+  detail: string;
+}
+
+export interface ChildProposal {
+  parent: string;
+  child: string;
+  parentPath: string;
+  childPath: string;
+  /**
+   * Path of the child relative to the parent folder, as used in childComponents
+   */
+  relativePath: string;
+  score: number;
+  signals: ChildSignal[];
+}
+
+/**
+ * A child reaching for its parent is strong evidence on its own. JSX nesting, folders and names
+ * only count together: widgets also render other widgets internally (a button inside dialog actions).
+ */
+export const CHILD_SIGNAL_WEIGHTS: Record<ChildSignalType, number> = {
+  'parent-reference': 3,
+  'context': 3,
+  'rendered-inside': 1,
+  'nested-folder': 1,
+  'naming': 1,
+};
+
+/**
+ * Minimum score for a proposal to be applied without a childComponents entry
+ */
+export const CHILD_ACCEPT_SCORE = 2;
+
+/**
+ * What one component's sources say about other components
+ */
+interface ComponentFacts {
+  parentCasts: Set<string>;
+  consumedContexts: Set<string>;
+  providedContexts: Set<string>;
+}
+
+/**
+ * accordionpane, WmAccordionpane, AccordionPane and accordion-pane all normalise to "accordionpane"
+ */
+export function normalizeComponentName(name: string): string {
+  return name.replace(/^Wm(?=[A-Z])/, '').replace(/[-_]/g, '').toLowerCase();
+}
+
+export class ChildDiscovery {
+  private components: Array<{ path: string; category: string }>;
+  private readSources: (componentPath: string) => ComponentSources;
+  private byName = new Map<string, string>();
+  private facts = new Map<string, ComponentFacts>();
+  private nesting = new Map<string, string>();
+
+  /**
+   * @param components - Every component folder of the tree (not only the whitelisted ones)
+   * @param readSources - Reads a component's sources through the active source layout
+   */
+  constructor(components: Array<{ path: string; category: string }>, readSources: (componentPath: string) => ComponentSources) {
+    this.components = components;
+    this.readSources = readSources;
+
+    for (const { path: componentPath } of components) {
+      this.byName.set(normalizeComponentName(path.basename(componentPath)), componentPath);
+    }
+  }
+
+  /**
+   * Every parent-child pair with at least one signal, strongest first
+   */
+  discover(): ChildProposal[] {
+    for (const { path: componentPath } of this.components) {
+      this.facts.set(componentPath, this.collectFacts(componentPath));
+    }
+
+    const proposals: ChildProposal[] = [];
+
+    for (const { path: parentPath } of this.components) {
+      for (const { path: childPath } of this.components) {
+        if (parentPath === childPath) continue;
+
+        const signals = this.collectSignals(parentPath, childPath);
+        if (signals.length === 0) continue;
+
+        proposals.push({
+          parent: path.basename(parentPath),
+          child: path.basename(childPath),
+          parentPath,
+          childPath,
+          relativePath: this.toRelativePath(parentPath, childPath),
+          score: signals.reduce((total, signal) => total + CHILD_SIGNAL_WEIGHTS[signal.type], 0),
+          signals,
+        });
+      }
+    }
+
+    return proposals.sort((a, b) => b.score - a.score || a.parent.localeCompare(b.parent) || a.child.localeCompare(b.child));
+  }
+
+  private collectSignals(parentPath: string, childPath: string): ChildSignal[] {
+    const signals: ChildSignal[] = [];
+    const parentName = normalizeComponentName(path.basename(parentPath));
+    const childName = normalizeComponentName(path.basename(childPath));
+    const parentFacts = this.facts.get(parentPath)!;
+    const childFacts = this.facts.get(childPath)!;
+
+    if (childFacts.parentCasts.has(parentName)) {
+      signals.push({ type: 'parent-reference', detail: `${path.basename(childPath)} casts this.parent to ${path.basename(parentPath)}` });
+    }
+
+    for (const context of childFacts.consumedContexts) {
+      if (parentFacts.providedContexts.has(context)) {
+        signals.push({ type: 'context', detail: `${context} provided by ${path.basename(parentPath)}` });
+      }
+    }
+
+    const renderedIn = this.nesting.get(`${parentName}>${childName}`);
+    if (renderedIn) {
+      signals.push({ type: 'rendered-inside', detail: `nested in JSX in ${renderedIn}` });
+    }
+
+    // A category folder that is also a widget (container/) does not own every widget below it
+    const parentCategory = this.components.find(c => c.path === parentPath)!.category;
+    const nested = path.dirname(childPath) === parentPath && path.basename(parentPath) !== parentCategory;
+    if (nested) {
+      signals.push({ type: 'nested-folder', detail: `${path.basename(childPath)}/ is inside ${path.basename(parentPath)}/` });
+    }
+
+    // dialog -> dialogcontent, tabs -> tabpane; only among siblings or nested folders
+    const stem = parentName.replace(/s$/, '');
+    if ((nested || path.dirname(childPath) === path.dirname(parentPath)) &&
+        childName.length > parentName.length && (childName.startsWith(parentName) || childName.startsWith(stem))) {
+      signals.push({ type: 'naming', detail: `${path.basename(childPath)} is named after ${path.basename(parentPath)}` });
+    }
+
+    return signals;
+  }
+
+  /**
+   * Parse every source of a component once, recording JSX nesting for the whole tree as it goes
+   */
+  private collectFacts(componentPath: string): ComponentFacts {
+    const facts: ComponentFacts = {
+      parentCasts: new Set(),
+      consumedContexts: new Set(),
+      providedContexts: new Set(),
+    };
+
+    const sources = this.readSources(componentPath);
+    const contents = sources.files.map(file => ({ fileName: file.fileName, content: file.content }));
+
+    // Stories and examples next to the component show how it is composed
+    for (const file of fs.readdirSync(componentPath)) {
+      if (/\.(tsx|jsx)$/.test(file) && !sources.files.some(entry => path.basename(entry.fileName) === file)) {
+        contents.push({ fileName: file, content: fs.readFileSync(path.join(componentPath, file), 'utf-8') });
+      }
+    }
+
+    for (const { fileName, content } of contents) {
+      const sourceFile = TypeScriptParser.createSourceFile(content);
+      const external = this.findExternalImports(sourceFile);
+
+      const visit = (node: ts.Node) => {
+        // (this.parent as WmAccordion).expand(...)
+        if (ts.isAsExpression(node) && ts.isTypeReferenceNode(node.type)) {
+          let expression: ts.Expression = node.expression;
+          while (ts.isParenthesizedExpression(expression)) expression = expression.expression;
+
+          if (ts.isPropertyAccessExpression(expression) && expression.name.text === 'parent') {
+            facts.parentCasts.add(normalizeComponentName(node.type.typeName.getText(sourceFile)));
+          }
+        }
+
+        // const AccordionContext = React.createContext(...)
+        if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer &&
+            ts.isCallExpression(node.initializer) && /(^|\.)createContext$/.test(node.initializer.expression.getText(sourceFile))) {
+          facts.providedContexts.add(node.name.text);
+        }
+
+        // <AccordionContext.Provider> / AccordionContext.Consumer
+        if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)) {
+          if (node.name.text === 'Provider') facts.providedContexts.add(node.expression.text);
+          if (node.name.text === 'Consumer') facts.consumedContexts.add(node.expression.text);
+        }
+
+        // useContext(AccordionContext)
+        if (ts.isCallExpression(node) && /(^|\.)useContext$/.test(node.expression.getText(sourceFile)) &&
+            node.arguments[0] && ts.isIdentifier(node.arguments[0])) {
+          facts.consumedContexts.add(node.arguments[0].text);
+        }
+
+        // static contextType = AccordionContext
+        if (ts.isPropertyDeclaration(node) && node.name.getText(sourceFile) === 'contextType' &&
+            node.initializer && ts.isIdentifier(node.initializer)) {
+          facts.consumedContexts.add(node.initializer.text);
+        }
+
+        if (ts.isJsxElement(node)) {
+          this.recordNesting(node, path.join(path.basename(componentPath), path.basename(fileName)), sourceFile, external);
+        }
+
+        ts.forEachChild(node, visit);
+      };
+
+      visit(sourceFile);
+    }
+
+    // A component never counts as its own parent
+    const ownName = normalizeComponentName(path.basename(componentPath));
+    facts.parentCasts.delete(ownName);
+
+    return facts;
+  }
+
+  /**
+   * <WmAccordion><WmAccordionpane/></WmAccordion>: record library components found inside a library component,
+   * stopping at the first library component on each branch
+   */
+  private recordNesting(element: ts.JsxElement, location: string, sourceFile: ts.SourceFile, external: Set<string>): void {
+    const outer = this.toComponentName(element.openingElement.tagName.getText(sourceFile), external);
+    if (!outer) return;
+
+    const visit = (node: ts.Node) => {
+      if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const tag = ts.isJsxElement(node) ? node.openingElement.tagName : node.tagName;
+        const inner = this.toComponentName(tag.getText(sourceFile), external);
+        if (inner && inner !== outer) {
+          const key = `${outer}>${inner}`;
+          if (!this.nesting.has(key)) this.nesting.set(key, location);
+          return;
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    element.children.forEach(visit);
+  }
+
+  /**
+   * Normalised component name for a JSX tag, when the tag is a component of this tree
+   * (<Text> from react-native is not the text widget)
+   */
+  private toComponentName(tagName: string, external: Set<string>): string | null {
+    if (external.has(tagName.split('.')[0])) {
+      return null;
+    }
+
+    const name = normalizeComponentName(tagName.split('.').pop() || tagName);
+    return this.byName.has(name) ? name : null;
+  }
+
+  /**
+   * Local names imported from packages that are not components of this tree
+   */
+  private findExternalImports(sourceFile: ts.SourceFile): Set<string> {
+    const external = new Set<string>();
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier) || !statement.importClause) {
+        continue;
+      }
+
+      const specifier = statement.moduleSpecifier.text;
+      const segments = specifier.split('/');
+      const last = segments[segments.length - 1].replace(/\.(component|props|styles)$/, '');
+      if (specifier.startsWith('.') || this.byName.has(normalizeComponentName(last))) {
+        continue;
+      }
+
+      const { name, namedBindings } = statement.importClause;
+      if (name) external.add(name.text);
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        namedBindings.elements.forEach(element => external.add(element.name.text));
+      }
+    }
+
+    return external;
+  }
+
+  private toRelativePath(parentPath: string, childPath: string): string {
+    const relative = path.relative(parentPath, childPath).split(path.sep).join('/');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Per-component API history, recorded release by release from API diffs and rendered
+ * as changelog.md in each Storybook docs folder
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiChange, ApiDiffResult } from './api-diff.js';
+import { getStorybookDocsDir, toWmPascalCase } from './storybook-docs.js';
+
+export const HISTORY_FILE = 'api-history.json';
+export const CHANGELOG_FILE = 'changelog.md';
+
+export interface ReleaseEntry {
+  version: string;
+  /**
+   * ISO date (YYYY-MM-DD) the release was recorded
+   */
+  date: string;
+  changes: Array<Omit<ApiChange, 'component'>>;
+}
+
+export interface ComponentHistory {
+  component: string;
+  /**
+   * Newest release first
+   */
+  releases: ReleaseEntry[];
+}
+
+/**
+ * Changelog sections, in the order they are rendered
+ */
+const SECTIONS: Array<{ title: string; includes: (change: Omit<ApiChange, 'component'>) => boolean }> = [
+  { title: 'Breaking changes', includes: change => change.breaking },
+  { title: 'Added', includes: change => !change.breaking && change.change === 'added' },
+  { title: 'Deprecated', includes: change => !change.breaking && change.change === 'deprecated' },
+  { title: 'Changed', includes: change => !change.breaking && (change.change === 'changed' || change.change === 'removed') },
+];
+
+export class ComponentChangelog {
+  /**
+   * Record a release for every component the diff touches and re-render their changelog.md.
+   * Recording the same version again replaces it, so a release can be regenerated.
+   * @returns The changelog files written
+   */
+  static record(result: ApiDiffResult, version: string, storybookPath: string, date: string = new Date().toISOString().slice(0, 10)): string[] {
+    const written: string[] = [];
+
+    for (const component of result.components) {
+      const docsDir = getStorybookDocsDir(storybookPath, component);
+      const history = this.readHistory(docsDir, component);
+
+      const entry: ReleaseEntry = {
+        version,
+        date,
+        changes: result.changes
+          .filter(change => change.component === component)
+          .map(({ component: _component, ...change }) => change),
+      };
+
+      history.releases = [entry, ...history.releases.filter(release => release.version !== version)]
+        .sort((a, b) => this.compareVersions(b.version, a.version));
+
+      if (!fs.existsSync(docsDir)) {
+        fs.mkdirSync(docsDir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(docsDir, HISTORY_FILE), JSON.stringify(history, null, 2), 'utf-8');
+
+      const changelogPath = path.join(docsDir, CHANGELOG_FILE);
+      fs.writeFileSync(changelogPath, this.render(history), 'utf-8');
+      written.push(changelogPath);
+    }
+
+    return written;
+  }
+
+  static readHistory(docsDir: string, component: string): ComponentHistory {
+    const historyPath = path.join(docsDir, HISTORY_FILE);
+    if (!fs.existsSync(historyPath)) {
+      return { component, releases: [] };
+    }
+    return JSON.parse(fs.readFileSync(historyPath, 'utf-8')) as ComponentHistory;
+  }
+
+  static render(history: ComponentHistory): string {
+    const lines = [
+      `# ${toWmPascalCase(history.component)} changelog`,
+      '',
+      `<!-- Generated from ${HISTORY_FILE} by wm-doc-generator changelog; edits are overwritten -->`,
+    ];
+
+    for (const release of history.releases) {
+      lines.push('', `## ${release.version} (${release.date})`);
+
+      for (const section of SECTIONS) {
+        const changes = release.changes.filter(section.includes);
+        if (changes.length === 0) continue;
+
+        lines.push('', `### ${section.title}`, '');
+        changes.forEach(change => lines.push(`- ${this.describe(change)}`));
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * "Prop `caption` added", "Prop `size`: type narrowed: ...", "Component added"
+   */
+  private static describe(change: Omit<ApiChange, 'component'>): string {
+    if (change.kind === 'component') {
+      return change.detail.charAt(0).toUpperCase() + change.detail.slice(1);
+    }
+
+    const kind = change.kind === 'style' ? 'Style class' : change.kind.charAt(0).toUpperCase() + change.kind.slice(1);
+    const name = `${kind} \`${change.name}\``;
+
+    // "prop added" says nothing the heading doesn't; "required prop added" does
+    if ((change.change === 'added' || change.change === 'removed') && change.detail === `${change.kind} ${change.change}`) {
+      return `${name} ${change.change}`;
+    }
+    // Under the Deprecated heading only the message is news
+    if (change.change === 'deprecated') {
+      const message = change.detail.replace(/^deprecated:?\s*/, '');
+      return message ? `${name}: ${message}` : `${name} deprecated`;
+    }
+    return `${name}: ${change.detail}`;
+  }
+
+  /**
+   * Numeric-aware comparison, so 11.10.0 sorts after 11.9.0
+   */
+  private static compareVersions(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Loads the project configuration (wm-doc.config.json/.js/.ts), validates it against
+ * wm-doc.config.schema.json and deep-merges it over the defaults
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { pathToFileURL } from 'url';
+import { DEFAULT_CONFIG, DeepPartial, GeneratorConfig, mergeConfig } from './config.js';
+import { DocFilter } from './doc-filter.js';
+
+export const CONFIG_FILE_NAMES = ['wm-doc.config.json', 'wm-doc.config.js', 'wm-doc.config.mjs', 'wm-doc.config.ts'];
+
+const SCHEMA_PATH = new URL('../wm-doc.config.schema.json', import.meta.url);
+
+/**
+ * Subset of JSON Schema used by wm-doc.config.schema.json
+ */
+interface SchemaNode {
+  type?: string | string[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean | SchemaNode;
+  required?: string[];
+  items?: SchemaNode;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: SchemaNode[];
+  minimum?: number;
+}
+
+export interface LoadedConfig {
+  config: GeneratorConfig;
+  /**
+   * Config file that was applied, if any
+   */
+  filePath?: string;
+}
+
+export class ConfigLoader {
+  /**
+   * Find a config file in the working directory or its parents
+   */
+  static findConfigFile(startDir: string = process.cwd()): string | null {
+    let dir = path.resolve(startDir);
+
+    while (true) {
+      for (const fileName of CONFIG_FILE_NAMES) {
+        const candidate = path.join(dir, fileName);
+        if (fs.existsSync(candidate)) {
+          return candidate;
+        }
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Load, validate and merge the project configuration.
+   * Throws with every problem listed when the file is invalid.
+   * @param explicitPath - Config file given with --config (otherwise discovered)
+   */
+  static async load(explicitPath?: string): Promise<LoadedConfig> {
+    const filePath = explicitPath ? path.resolve(process.cwd(), explicitPath) : this.findConfigFile();
+
+    if (!filePath) {
+      return { config: DEFAULT_CONFIG };
+    }
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+
+    const raw = await this.readConfigFile(filePath);
+    const errors = this.validate(raw);
+    if (errors.length > 0) {
+      throw new Error(`Invalid config in ${filePath}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    const overrides = this.resolvePaths(raw as DeepPartial<GeneratorConfig>, path.dirname(filePath));
+    const config = mergeConfig(DEFAULT_CONFIG, overrides);
+
+    const patternErrors = new DocFilter(config).validate();
+    if (patternErrors.length > 0) {
+      throw new Error(`Invalid config in ${filePath}:\n${patternErrors.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    return { config, filePath };
+  }
+
+  /**
+   * Validate a parsed config object against the schema; returns one message per problem
+   */
+  static validate(raw: unknown): string[] {
+    const schema = JSON.parse(fs.readFileSync(SCHEMA_PATH, 'utf-8')) as SchemaNode;
+    const errors: string[] = [];
+    this.validateNode(raw, schema, '', errors);
+    return errors;
+  }
+
+  private static async readConfigFile(filePath: string): Promise<unknown> {
+    if (filePath.endsWith('.json')) {
+      try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      } catch (error) {
+        throw new Error(`Could not parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    let modulePath = filePath;
+    let tempPath: string | null = null;
+
+    // TypeScript configs are transpiled next to the original so their relative imports still resolve
+    if (filePath.endsWith('.ts')) {
+      const output = ts.transpileModule(fs.readFileSync(filePath, 'utf-8'), {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+        fileName: filePath,
+      });
+      tempPath = path.join(path.dirname(filePath), `.wm-doc.config.${process.pid}.mjs`);
+      fs.writeFileSync(tempPath, output.outputText, 'utf-8');
+      modulePath = tempPath;
+    }
+
+    try {
+      const module = await import(pathToFileURL(modulePath).href);
+      return module.default ?? module.config;
+    } catch (error) {
+      throw new Error(`Could not load ${filePath}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      if (tempPath) {
+        fs.rmSync(tempPath, { force: true });
+      }
+    }
+  }
+
+  private static validateNode(value: unknown, schema: SchemaNode, keyPath: string, errors: string[]): void {
+    const label = keyPath || 'config';
+
+    if (schema.anyOf) {
+      const matches = schema.anyOf.some(option => {
+        const optionErrors: string[] = [];
+        this.validateNode(value, option, keyPath, optionErrors);
+        return optionErrors.length === 0;
+      });
+      if (!matches) {
+        errors.push(`${label}: expected ${schema.anyOf.map(o => this.describe(o)).join(' or ')}, got ${this.typeOf(value)}`);
+      }
+      return;
+    }
+
+    if (schema.const !== undefined && value !== schema.const) {
+      errors.push(`${label}: expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`);
+      return;
+    }
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesType(value, type))) {
+        errors.push(`${label}: expected ${types.join(' or ')}, got ${this.typeOf(value)}`);
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${label}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+
+    if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+      errors.push(`${label}: must be at least ${schema.minimum}, got ${value}`);
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => this.validateNode(item, schema.items!, `${label}[${index}]`, errors));
+    }
+
+    if (this.matchesType(value, 'object')) {
+      const properties = schema.properties ?? {};
+
+      for (const key of schema.required ?? []) {
+        if (!(key in (value as Record<string, unknown>))) {
+          errors.push(`${label}: missing required key "${key}"`);
+        }
+      }
+
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        const childPath = keyPath ? `${keyPath}.${key}` : key;
+
+        if (properties[key]) {
+          this.validateNode(child, properties[key], childPath, errors);
+        } else if (schema.additionalProperties === false) {
+          const suggestion = this.suggest(key, Object.keys(properties));
+          errors.push(`${childPath}: unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          this.validateNode(child, schema.additionalProperties, childPath, errors);
+        }
+      }
+    }
+  }
+
+  private static matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private static describe(schema: SchemaNode): string {
+    if (schema.const !== undefined) return JSON.stringify(schema.const);
+    return Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type ?? 'value';
+  }
+
+  /**
+   * Closest known key for a typo: same letters ignoring case, or at most two edits away
+   */
+  private static suggest(key: string, known: string[]): string | null {
+    const exact = known.find(k => k.toLowerCase() === key.toLowerCase());
+    if (exact) return exact;
+
+    let best: { key: string; distance: number } | null = null;
+    for (const candidate of known) {
+      const distance = this.editDistance(key.toLowerCase(), candidate.toLowerCase());
+      if (distance <= 2 && (!best || distance < best.distance)) {
+        best = { key: candidate, distance };
+      }
+    }
+    return best?.key ?? null;
+  }
+
+  private static editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+        previous = current;
+      }
+    }
+
+    return row[b.length];
+  }
+
+  /**
+   * Paths in the config file are relative to the file, not to the working directory
+   */
+  private static resolvePaths(config: DeepPartial<GeneratorConfig>, baseDir: string): DeepPartial<GeneratorConfig> {
+    const resolve = (value?: string) => value ? path.resolve(baseDir, value) : value;
+    const { $schema, ...rest } = config as DeepPartial<GeneratorConfig> & { $schema?: string };
+
+    return {
+      ...rest,
+      componentsSourcePath: resolve(config.componentsSourcePath),
+      themeVariablesPath: resolve(config.themeVariablesPath),
+      sourceLayouts: config.sourceLayouts?.map(modulePath => path.resolve(baseDir, modulePath)),
+      typeChecker: config.typeChecker && { ...config.typeChecker, tsconfigPath: resolve(config.typeChecker.tsconfigPath) },
+      cache: config.cache && { ...config.cache, path: resolve(config.cache.path) },
+      templates: config.templates && { ...config.templates, path: resolve(config.templates.path) },
+      llm: config.llm && {
+        ...config.llm,
+        storybookPath: resolve(config.llm.storybookPath),
+        replay: config.llm.replay && { ...config.llm.replay, fixturesPath: resolve(config.llm.replay.fixturesPath) },
+      },
+    };
+  }
+}
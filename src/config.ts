@@ -7,30 +7,92 @@ import dotenv from "dotenv";
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * Exact name, glob ("on*", "Wm?utton") or regex ("/^on[A-Z]/i").
+ * Component patterns also match "category/name" ("charts/*").
+ */
+export type NamePattern = string;
+
+/**
+ * Removes props, methods, style classes or events matching every condition given
+ */
+export interface FilterRule {
+  /**
+   * Kind of item the rule removes
+   */
+  target: "prop" | "method" | "style" | "event";
+
+  /**
+   * Item names to remove (every item when omitted)
+   */
+  names?: NamePattern[];
+
+  /**
+   * Item names kept even when everything else matches
+   */
+  keep?: NamePattern[];
+
+  /**
+   * Only apply in these categories / components
+   */
+  categories?: NamePattern[];
+  components?: NamePattern[];
+
+  /**
+   * Props inherited from these classes (e.g. "BaseProps")
+   */
+  inheritedFrom?: NamePattern[];
+
+  /**
+   * Props whose type matches (e.g. "*=>*" for callbacks)
+   */
+  types?: NamePattern[];
+
+  /**
+   * Shown by --explain instead of the rule index
+   */
+  reason?: string;
+}
+
+/**
+ * Per-component or per-category exclusions
+ */
+export interface ExclusionOverrides {
+  excludeProps?: NamePattern[];
+  excludeMethods?: NamePattern[];
+  excludeStyleClasses?: NamePattern[];
+}
+
 export interface GeneratorConfig {
   /**
    * Components to include in documentation generation (whitelist)
    */
-  includeComponents: string[];
+  includeComponents: NamePattern[];
 
   /**
-   * Child components mapping: Parent -> { ChildName: RelativePath }
+   * Child components override: Parent -> { ChildName: RelativePath | false }
+   * Applied on top of discovered children; `false` drops a discovered child
    */
   childComponents: {
     [parentName: string]: {
-      [childName: string]: string;
+      [childName: string]: string | false;
     };
   };
 
+  /**
+   * Detect parent-child components from source (parent casts, contexts, JSX nesting, folders, names)
+   */
+  childDiscovery: boolean;
+
   /**
    * Categories to exclude from documentation generation
    */
-  excludeCategories: string[];
+  excludeCategories: NamePattern[];
 
   /**
    * Specific component names to exclude (regardless of category)
    */
-  excludeComponents: string[];
+  excludeComponents: NamePattern[];
 
   /**
    * Documentation content filtering
@@ -39,33 +101,89 @@ export interface GeneratorConfig {
     /**
      * Props to exclude from all components
      */
-    excludeProps: string[];
+    excludeProps: NamePattern[];
 
     /**
      * Inherited props to exclude (reduces clutter)
      */
-    excludeInheritedProps: string[];
+    excludeInheritedProps: NamePattern[];
 
     /**
      * Methods to exclude (internal/private methods)
      */
-    excludeMethods: string[];
+    excludeMethods: NamePattern[];
 
     /**
      * Style classes to exclude
      */
-    excludeStyleClasses: string[];
+    excludeStyleClasses: NamePattern[];
 
     /**
-     * Component-specific overrides
+     * Component-specific overrides, keyed by component name pattern
      */
     componentOverrides: {
-      [componentName: string]: {
-        excludeProps?: string[];
-        excludeMethods?: string[];
-        excludeStyleClasses?: string[];
-      };
+      [componentName: string]: ExclusionOverrides;
+    };
+
+    /**
+     * Category-specific overrides, keyed by category name pattern
+     */
+    categoryOverrides: {
+      [category: string]: ExclusionOverrides;
     };
+
+    /**
+     * Rules targeting categories, inherited-from classes and prop types
+     */
+    rules: FilterRule[];
+  };
+
+  /**
+   * Type-checker backed prop resolution
+   */
+  typeChecker: {
+    /**
+     * Resolve props through a ts.Program instead of syntax-only parsing
+     */
+    enabled: boolean;
+
+    /**
+     * Path to tsconfig.json (optional, searched upward from the components path)
+     */
+    tsconfigPath?: string;
+  };
+
+  /**
+   * Source layout to use ("tsx", "legacy-map" or a custom layout name).
+   * When not set, every registered layout that detects the tree is used.
+   */
+  sourceLayout?: string;
+
+  /**
+   * Modules exporting custom SourceLayout adapters for other widget libraries
+   */
+  sourceLayouts: string[];
+
+  /**
+   * Incremental generation: reuse the JSON of components whose files did not change
+   */
+  cache: {
+    enabled: boolean;
+
+    /**
+     * Cache file (default: .wm-doc-cache.json in the output directory)
+     */
+    path?: string;
+  };
+
+  /**
+   * Markdown templates used by --with-templates
+   */
+  templates: {
+    /**
+     * Folder with project templates (<section>.md.hbs) replacing the built-in ones in templates/
+     */
+    path?: string;
   };
 
   /**
@@ -73,15 +191,67 @@ export interface GeneratorConfig {
    */
   llm: {
     /**
-     * AI provider to use
+     * AI provider to use: claude, openai, ollama, replay or a provider registered with registerLLMProvider
      */
-    provider: "claude" | "openai" | "ollama";
+    provider: string;
 
     /**
-     * Model to use (optional, uses provider default)
+     * Model to use (optional, uses provider default from DEFAULT_MODELS)
      */
     model?: string;
 
+    /**
+     * Local Ollama-compatible server, used when provider is "ollama"
+     */
+    ollama: {
+      /**
+       * Server URL, e.g. http://localhost:11434
+       */
+      baseUrl: string;
+
+      /**
+       * Context window in tokens (num_ctx); the prompt with props and existing docs needs a large one
+       */
+      numCtx: number;
+
+      /**
+       * Ask the server to constrain the answer to valid JSON (format: "json")
+       */
+      jsonMode: boolean;
+    };
+
+    /**
+     * Recorded responses, used when provider is "replay"
+     */
+    replay: {
+      /**
+       * Folder holding one <prompt hash>.json fixture per response
+       */
+      fixturesPath: string;
+
+      /**
+       * replay: answer from the fixtures only, failing on an unknown prompt.
+       * record: answer from the fixtures, asking recordWith for (and storing) missing ones.
+       */
+      mode: "replay" | "record";
+
+      /**
+       * Provider that answers the prompts being recorded
+       */
+      recordWith: string;
+    };
+
+    /**
+     * Extra attempts when the answer fails validation; the problems are sent back to the model
+     */
+    maxRetries: number;
+
+    /**
+     * Include the existing WaveMaker documentation (fetched from GitHub) in the prompt.
+     * Turn off for offline or reproducible runs.
+     */
+    existingDocs: boolean;
+
     /**
      * Base path where generated markdown will be saved
      * Files will be saved to: {storybookPath}/components/{ComponentName}/{componentName}.auto.md
@@ -101,6 +271,17 @@ export interface GeneratorConfig {
    * e.g., ../react-widgets-storybook/src/components
    */
   componentsSourcePath: string;
+
+  /**
+   * Path to the theme variables definition used for tokens.json
+   * (optional, searched in the components tree and its sibling styles folder when not set)
+   */
+  themeVariablesPath?: string;
+
+  /**
+   * Version of the runtime package being documented (set when reading from a published package)
+   */
+  runtimeVersion?: string;
 }
 
 /**
@@ -177,16 +358,17 @@ export const DEFAULT_CONFIG: GeneratorConfig = {
     'area-chart', // chart/area-chart
   ],
 
+  // accordion panes, tab panes, wizard steps... are discovered from source;
+  // dialog content/actions are siblings only related by name, so they are listed here
   childComponents: {
-    'accordion': {
-      'accordion-pane': './accordionpane',
-    },
     'dialog': {
       'dialog-content': '../dialogcontent',
       'dialog-actions': '../dialogactions',
     }
   },
 
+  childDiscovery: process.env.CHILD_DISCOVERY !== "false",
+
   excludeCategories: [
     'node_modules',
     '.git',
@@ -196,9 +378,8 @@ export const DEFAULT_CONFIG: GeneratorConfig = {
     'page'
   ],
 
-  excludeComponents: [
-    // Deprecated by includeComponents, keeping for reference or mixed usage if needed
-  ],
+  // Applied after includeComponents, e.g. "*chart" or "charts/*"
+  excludeComponents: [],
 
   // Documentation content filtering
   documentation: {
@@ -232,31 +413,113 @@ export const DEFAULT_CONFIG: GeneratorConfig = {
     // Style classes that are internal
     excludeStyleClasses: [],
 
-    // Per-component overrides
+    // Per-component and per-category overrides
     componentOverrides: {},
+    categoryOverrides: {},
+
+    // e.g. { target: "prop", inheritedFrom: ["BaseProps"], keep: ["show", "disabled"] }
+    rules: [],
+  },
+
+  // Falls back to syntax-only parsing when no tsconfig is found
+  typeChecker: {
+    enabled: process.env.USE_TYPE_CHECKER === "true",
+    tsconfigPath: process.env.TSCONFIG_PATH,
+  },
+
+  sourceLayout: process.env.SOURCE_LAYOUT,
+  sourceLayouts: (process.env.SOURCE_LAYOUT_MODULES || "")
+    .split(",")
+    .map((modulePath) => modulePath.trim())
+    .filter(Boolean),
+
+  cache: {
+    enabled: process.env.DOC_CACHE !== "false",
+    path: process.env.DOC_CACHE_PATH,
+  },
+
+  templates: {
+    path: process.env.TEMPLATES_PATH,
   },
 
   // LLM settings (read from environment variables)
   llm: {
-    provider: (process.env.AI_PROVIDER || "claude") as
-      | "claude"
-      | "openai"
-      | "ollama",
-    model: process.env.AI_MODEL || "claude-3-7-sonnet-20250219",
+    provider: process.env.AI_PROVIDER || "claude",
+    model: process.env.AI_MODEL || undefined,
+    ollama: {
+      baseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
+      numCtx: parseInt(process.env.OLLAMA_NUM_CTX || "16384"),
+      jsonMode: process.env.OLLAMA_JSON_MODE !== "false",
+    },
+    replay: {
+      fixturesPath: process.env.LLM_FIXTURES_PATH || "./llm-fixtures",
+      mode: process.env.LLM_REPLAY_MODE === "record" ? "record" : "replay",
+      recordWith: process.env.LLM_RECORD_WITH || "claude",
+    },
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || "2"),
+    existingDocs: process.env.FETCH_EXISTING_DOCS !== "false",
     storybookPath: process.env.STORYBOOK_PATH || "../react-widgets-storybook",
     batchSize: parseInt(process.env.BATCH_SIZE || "5"),
   },
 
   // Path to component source directory (should point to the components root directory)
   componentsSourcePath: "../react-widgets-storybook/src/components",
+
+  themeVariablesPath: process.env.THEME_VARIABLES_PATH,
+};
+
+/**
+ * Partial configuration where nested objects are partial too (config files, constructor overrides)
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[]
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+/**
+ * Deep-merge overrides into a configuration.
+ * Nested objects are merged key by key; arrays and scalar values replace the base value,
+ * and undefined values are ignored.
+ */
+export function mergeConfig<T extends object>(base: T, overrides: DeepPartial<T> = {}): T {
+  const result = { ...base } as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const current = result[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      result[key] = mergeConfig(current, value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Model used when llm.model is not set
+ */
+export const DEFAULT_MODELS: Record<string, string> = {
+  claude: "claude-3-7-sonnet-20250219",
+  openai: "gpt-4-turbo-preview",
+  ollama: "llama3.1",
 };
 
 /**
  * Get API key for the configured provider
  */
-export function getApiKey(
-  provider: "claude" | "openai" | "ollama"
-): string | undefined {
+export function getApiKey(provider: string): string | undefined {
   switch (provider) {
     case "claude":
       return process.env.ANTHROPIC_API_KEY;
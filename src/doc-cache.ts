@@ -0,0 +1,225 @@
+/**
+ * Persistent cache of generated component docs, keyed by the content hash of every file
+ * a component was generated from (its folder, imported modules, parent chain and children)
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentDoc } from './types.js';
+import { FilterRemoval } from './doc-filter.js';
+
+export const DEFAULT_CACHE_FILE = '.wm-doc-cache.json';
+
+const PACKAGE_JSON = new URL('../package.json', import.meta.url);
+
+/**
+ * Paths in entries are relative to the components tree (with / separators), so the file doesn't name the machine it was made on
+ */
+interface CacheEntry {
+  /**
+   * Hash of every dependency when the doc was generated (file content, or folder listing and contents)
+   */
+  dependencies: Record<string, string>;
+  /**
+   * Child component folders the doc was generated with. Discovery scans the whole tree, so a child
+   * can appear (or go away) without any file the parent was read from changing.
+   */
+  children: string[];
+  doc: ComponentDoc;
+  /**
+   * Items the filters removed, replayed for --explain
+   */
+  removals: FilterRemoval[];
+}
+
+interface CacheFile {
+  /**
+   * Generator version and configuration the entries were produced with
+   */
+  fingerprint: string;
+  entries: Record<string, CacheEntry>;
+}
+
+export interface CacheSummary {
+  regenerated: number;
+  cached: number;
+  /**
+   * Components regenerated because a dependency changed, with the first changed file
+   */
+  changed: Array<{ component: string; file: string }>;
+}
+
+export class DocCache {
+  private filePath: string;
+  private rootPath: string;
+  private fingerprint: string;
+  private entries: Record<string, CacheEntry> = {};
+  private hashes = new Map<string, string>();
+  private summary: CacheSummary = { regenerated: 0, cached: 0, changed: [] };
+
+  /**
+   * @param filePath - Cache file, usually inside the output directory
+   * @param settings - Anything besides source files that changes the output (the configuration)
+   * @param rootPath - Components tree that stored paths are relative to
+   */
+  constructor(filePath: string, settings: unknown, rootPath: string) {
+    this.filePath = filePath;
+    this.rootPath = path.resolve(rootPath);
+    this.fingerprint = DocCache.hash(JSON.stringify({ version: DocCache.readGeneratorVersion(), settings }));
+    this.load();
+  }
+
+  /**
+   * Cached doc for a component, when none of its dependencies changed since it was generated
+   * and it still has the same children
+   */
+  get(key: string, children: string[]): { doc: ComponentDoc; removals: FilterRemoval[] } | null {
+    const entry = this.entries[key];
+    if (!entry) {
+      return null;
+    }
+
+    const changed = Object.entries(entry.dependencies).find(([dependency, hash]) => this.hashPath(this.fromStored(dependency)) !== hash)?.[0]
+      ?? this.findChangedChild(entry, children);
+    if (changed) {
+      this.summary.changed.push({ component: entry.doc.componentName, file: this.fromStored(changed) });
+      return null;
+    }
+
+    this.summary.cached++;
+    return { doc: entry.doc, removals: entry.removals };
+  }
+
+  /**
+   * Whether a cached component was generated from any of the files, or from a folder containing one
+   */
+  dependsOn(key: string, filePaths: string[]): boolean {
+    const entry = this.entries[key];
+    return !!entry && filePaths.some(filePath =>
+      this.toStored(filePath) in entry.dependencies || this.toStored(path.dirname(filePath)) in entry.dependencies);
+  }
+
+  /**
+   * Whether a cached component would get other children than it was generated with
+   */
+  childrenChanged(key: string, children: string[]): boolean {
+    const entry = this.entries[key];
+    return !!entry && this.findChangedChild(entry, children) !== null;
+  }
+
+  /**
+   * Store a freshly generated doc with the files and children it was generated from
+   */
+  set(key: string, doc: ComponentDoc, dependencies: Iterable<string>, children: string[], removals: FilterRemoval[]): void {
+    // Files before folders, so a change is reported against the file rather than its folder
+    const isFolder = (dependency: string) => fs.existsSync(dependency) && fs.statSync(dependency).isDirectory();
+    const ordered = [...dependencies].sort((a, b) => Number(isFolder(a)) - Number(isFolder(b)) || a.localeCompare(b));
+
+    const hashes: Record<string, string> = {};
+    for (const dependency of ordered) {
+      hashes[this.toStored(dependency)] = this.hashPath(dependency);
+    }
+
+    this.entries[key] = { dependencies: hashes, children: children.map(child => this.toStored(child)).sort(), doc, removals };
+    this.summary.regenerated++;
+  }
+
+  /**
+   * Drop entries of components that no longer exist (or are no longer documented)
+   */
+  retain(keys: string[]): void {
+    const keep = new Set(keys);
+    for (const key of Object.keys(this.entries)) {
+      if (!keep.has(key)) {
+        delete this.entries[key];
+      }
+    }
+  }
+
+  getSummary(): CacheSummary {
+    return this.summary;
+  }
+
+  save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const content: CacheFile = { fingerprint: this.fingerprint, entries: this.entries };
+    fs.writeFileSync(this.filePath, JSON.stringify(content), 'utf-8');
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const content = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CacheFile;
+      if (content.fingerprint === this.fingerprint) {
+        this.entries = content.entries ?? {};
+      } else {
+        console.log('Generator version or configuration changed, regenerating every component');
+      }
+    } catch (error) {
+      console.warn(`Ignoring unreadable cache ${this.filePath}`);
+    }
+  }
+
+  /**
+   * First child folder added or dropped since the entry was generated
+   */
+  private findChangedChild(entry: CacheEntry, children: string[]): string | null {
+    const cached = entry.children ?? [];
+    const current = children.map(child => this.toStored(child));
+    return current.find(child => !cached.includes(child)) ?? cached.find(child => !current.includes(child)) ?? null;
+  }
+
+  private toStored(filePath: string): string {
+    return path.relative(this.rootPath, path.resolve(filePath)).split(path.sep).join('/');
+  }
+
+  private fromStored(storedPath: string): string {
+    return path.resolve(this.rootPath, storedPath);
+  }
+
+  /**
+   * Hash a file's content, or a folder's file names and contents (so added files are noticed).
+   * Memoised for the run: parents such as BaseProps are shared by most components.
+   */
+  private hashPath(filePath: string): string {
+    let hash = this.hashes.get(filePath);
+    if (hash) {
+      return hash;
+    }
+
+    if (!fs.existsSync(filePath)) {
+      hash = 'missing';
+    } else if (fs.statSync(filePath).isDirectory()) {
+      const files = fs.readdirSync(filePath, { withFileTypes: true })
+        .filter(entry => entry.isFile())
+        .map(entry => entry.name)
+        .sort();
+      hash = DocCache.hash(files.map(name => `${name}:${this.hashPath(path.join(filePath, name))}`).join('\n'));
+    } else {
+      hash = DocCache.hash(fs.readFileSync(filePath));
+    }
+
+    this.hashes.set(filePath, hash);
+    return hash;
+  }
+
+  private static hash(content: string | Buffer): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+  }
+
+  private static readGeneratorVersion(): string {
+    try {
+      return JSON.parse(fs.readFileSync(PACKAGE_JSON, 'utf-8')).version;
+    } catch (error) {
+      return 'unknown';
+    }
+  }
+}
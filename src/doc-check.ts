@@ -0,0 +1,154 @@
+/**
+ * Checks that the committed JSON output and the Storybook markdown (props.md, events.md, methods.md)
+ * still describe the API generated from source
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiDiff, ApiDiffResult } from './api-diff.js';
+import { FilterRemoval } from './doc-filter.js';
+import { DocVerifier, VerifiedSection } from './doc-verifier.js';
+import { getStorybookDocsDir } from './storybook-docs.js';
+import { ComponentDoc } from './types.js';
+
+export type CheckedKind = 'prop' | 'event' | 'method';
+
+export interface DocIssue {
+  component: string;
+  kind: CheckedKind;
+  /**
+   * Item name (empty when the whole file is missing)
+   */
+  name: string;
+  /**
+   * undocumented: in source but not in the markdown; stale: in the markdown but not in source
+   */
+  problem: 'undocumented' | 'stale' | 'missing';
+  file: string;
+}
+
+export interface CheckResult {
+  /**
+   * API changes between the committed JSON and the source, or null when the JSON wasn't checked
+   */
+  drift: ApiDiffResult | null;
+  /**
+   * Markdown problems, or null when the markdown wasn't checked
+   */
+  issues: DocIssue[] | null;
+  /**
+   * Components whose markdown was checked
+   */
+  checked: string[];
+}
+
+/**
+ * Verifier section of each kind
+ */
+const SECTIONS: Record<CheckedKind, VerifiedSection> = {
+  prop: 'props',
+  event: 'events',
+  method: 'methods',
+};
+
+export class DocCheck {
+  /**
+   * API changes between a committed snapshot (output directory or all-components.json) and freshly generated docs
+   */
+  static checkOutput(docs: ComponentDoc[], snapshotPath: string): ApiDiffResult {
+    return ApiDiff.compare(ApiDiff.loadSnapshot(snapshotPath), docs);
+  }
+
+  /**
+   * Compare each component's props, events and methods with the tables of its markdown, by name:
+   * the rules for what must and may be listed are the verifier's, and types are left to `verify`
+   */
+  static checkMarkdown(docs: ComponentDoc[], storybookPath: string, removals: FilterRemoval[] = []): DocIssue[] {
+    const issues: DocIssue[] = [];
+
+    for (const doc of docs) {
+      const docsDir = getStorybookDocsDir(storybookPath, doc.componentName);
+
+      for (const kind of Object.keys(SECTIONS) as CheckedKind[]) {
+        const section = SECTIONS[kind];
+        const filePath = path.join(docsDir, DocVerifier.getSectionFile(section));
+
+        if (!fs.existsSync(filePath)) {
+          if (DocVerifier.getRequiredNames(doc, section).length > 0) {
+            issues.push({ component: doc.componentName, kind, name: '', problem: 'missing', file: filePath });
+          }
+          continue;
+        }
+
+        for (const issue of DocVerifier.verifySection(doc, section, fs.readFileSync(filePath, 'utf-8'), removals)) {
+          if (issue.problem === 'type-mismatch') continue;
+          issues.push({
+            component: doc.componentName,
+            kind,
+            name: issue.name,
+            problem: issue.problem === 'missing' ? 'undocumented' : 'stale',
+            file: filePath,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  static formatText(result: CheckResult, basePath: string = process.cwd()): string {
+    const lines: string[] = [];
+
+    if (result.drift) {
+      const { drift } = result;
+      if (drift.changes.length === 0) {
+        lines.push('✓ Committed JSON matches the source');
+      } else {
+        lines.push(`✗ Committed JSON is out of date: ${drift.changes.length} API changes in ${drift.components.length} components (run generate)`);
+        for (const change of drift.changes) {
+          const item = change.kind === 'component' ? '' : `${change.kind} ${change.name}: `;
+          lines.push(`  ${change.component}: ${item}${change.detail}`);
+        }
+      }
+      lines.push('');
+    }
+
+    if (!result.issues) {
+      return lines.join('\n').trimEnd();
+    }
+
+    if (result.issues.length === 0) {
+      lines.push(`✓ Markdown of ${result.checked.length} components matches the source`);
+    } else {
+      const components = [...new Set(result.issues.map(issue => issue.component))];
+      lines.push(`✗ ${result.issues.length} markdown problems in ${components.length} of ${result.checked.length} components`);
+
+      for (const component of components) {
+        lines.push('', component);
+        for (const issue of result.issues.filter(i => i.component === component)) {
+          const file = path.relative(basePath, issue.file);
+          if (issue.problem === 'missing') {
+            lines.push(`  ✗ ${file} is missing`);
+          } else if (issue.problem === 'undocumented') {
+            lines.push(`  ✗ ${issue.kind} ${issue.name} is not documented in ${file}`);
+          } else {
+            lines.push(`  ✗ ${issue.kind} ${issue.name} is documented in ${file} but no longer in source`);
+          }
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  static formatJson(result: CheckResult): string {
+    return JSON.stringify(result, null, 2);
+  }
+
+  /**
+   * Whether the check should fail the build
+   */
+  static hasProblems(result: CheckResult): boolean {
+    return (result.issues?.length ?? 0) > 0 || (result.drift?.changes.length ?? 0) > 0;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Applies the include/exclude lists, per-component and per-category overrides and filter rules
+ * of the configuration, recording which rule removed which item
+ */
+
+import * as path from 'path';
+import { ExclusionOverrides, FilterRule, GeneratorConfig, NamePattern } from './config.js';
+import { ComponentDoc } from './types.js';
+
+export type FilteredKind = 'component' | 'prop' | 'method' | 'style' | 'event';
+
+/**
+ * One item removed by the configuration, as listed by --explain
+ */
+export interface FilterRemoval {
+  kind: FilteredKind;
+  category: string;
+  component: string;
+  /**
+   * Name of the removed item (the component itself for kind 'component')
+   */
+  name: string;
+  /**
+   * Config key and pattern that removed it, e.g. documentation.excludeProps "on*"
+   */
+  rule: string;
+}
+
+/**
+ * Turn a name pattern into a matcher: /regex/flags, a glob with * and ?, or an exact name
+ */
+export function compilePattern(pattern: NamePattern): (value: string) => boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      // g and y make test() resume from lastIndex, so every other name would be skipped
+      const compiled = new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+      return value => compiled.test(value);
+    } catch (error) {
+      throw new Error(`Invalid pattern ${pattern}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (/[*?]/.test(pattern)) {
+    const source = pattern
+      .split('')
+      .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    const compiled = new RegExp(`^${source}$`);
+    return value => compiled.test(value);
+  }
+
+  return value => value === pattern;
+}
+
+export class DocFilter {
+  private config: GeneratorConfig;
+  private matchers = new Map<NamePattern, (value: string) => boolean>();
+  private removals: FilterRemoval[] = [];
+
+  constructor(config: GeneratorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Items removed so far, in the order they were filtered
+   */
+  getRemovals(): FilterRemoval[] {
+    return this.removals;
+  }
+
+  /**
+   * Record removals of a doc that was not filtered again (served from the cache)
+   */
+  addRemovals(removals: FilterRemoval[]): void {
+    this.removals.push(...removals);
+  }
+
+  /**
+   * Apply excludeCategories, includeComponents and excludeComponents to the component folders
+   */
+  filterComponents(components: Array<{ path: string; category: string }>): Array<{ path: string; category: string }> {
+    return components.filter(({ path: componentPath, category }) => {
+      const component = path.basename(componentPath);
+      const remove = (rule: string) => {
+        this.removals.push({ kind: 'component', category, component, name: component, rule });
+        return false;
+      };
+
+      const excludedCategory = this.findMatch(this.config.excludeCategories, category);
+      if (excludedCategory !== null) {
+        return remove(`excludeCategories "${excludedCategory}"`);
+      }
+
+      // If includeComponents is empty or not configured, include all components
+      const { includeComponents, excludeComponents } = this.config;
+      if (includeComponents.length > 0 && this.findComponentMatch(includeComponents, component, category) === null) {
+        return remove('includeComponents (not listed)');
+      }
+
+      const excluded = this.findComponentMatch(excludeComponents, component, category);
+      if (excluded !== null) {
+        return remove(`excludeComponents "${excluded}"`);
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Remove the props, methods, style classes and events the documentation settings exclude
+   */
+  filterDoc(doc: ComponentDoc): ComponentDoc {
+    const config = this.config.documentation;
+    const { componentName: component, category } = doc;
+
+    // Overrides that apply to this component, with the config key they come from
+    const overrides: Array<{ key: string; values: ExclusionOverrides }> = [
+      ...Object.entries(config.categoryOverrides)
+        .filter(([pattern]) => this.matches(pattern, category))
+        .map(([pattern, values]) => ({ key: `documentation.categoryOverrides["${pattern}"]`, values })),
+      ...Object.entries(config.componentOverrides)
+        .filter(([pattern]) => this.findComponentMatch([pattern], component, category) !== null)
+        .map(([pattern, values]) => ({ key: `documentation.componentOverrides["${pattern}"]`, values })),
+    ];
+
+    const rules = config.rules
+      .map((rule, index) => ({ rule, label: rule.reason ? `documentation.rules[${index}] (${rule.reason})` : `documentation.rules[${index}]` }))
+      .filter(({ rule }) =>
+        (!rule.categories || this.findMatch(rule.categories, category) !== null) &&
+        (!rule.components || this.findComponentMatch(rule.components, component, category) !== null));
+
+    const keep = (kind: Exclude<FilteredKind, 'component'>, name: string, rule: string | null): boolean => {
+      if (rule === null) return true;
+      this.removals.push({ kind, category, component, name, rule });
+      return false;
+    };
+
+    const byList = (key: string, patterns: NamePattern[] | undefined, name: string): string | null => {
+      const match = patterns ? this.findMatch(patterns, name) : null;
+      return match !== null ? `${key} "${match}"` : null;
+    };
+
+    const byOverrides = (field: keyof ExclusionOverrides, name: string): string | null => {
+      for (const { key, values } of overrides) {
+        const match = byList(`${key}.${field}`, values[field], name);
+        if (match) return match;
+      }
+      return null;
+    };
+
+    const byRules = (target: FilterRule['target'], name: string, prop?: { type: string; inheritedFrom?: string }): string | null => {
+      for (const { rule, label } of rules) {
+        if (rule.target !== target) continue;
+        if (rule.names && this.findMatch(rule.names, name) === null) continue;
+        if (rule.keep && this.findMatch(rule.keep, name) !== null) continue;
+        if (rule.inheritedFrom && (!prop?.inheritedFrom || this.findMatch(rule.inheritedFrom, prop.inheritedFrom) === null)) continue;
+        if (rule.types && (!prop || this.findMatch(rule.types, prop.type) === null)) continue;
+        return label;
+      }
+      return null;
+    };
+
+    const props = doc.props.filter(prop => keep('prop', prop.name,
+      byList('documentation.excludeProps', config.excludeProps, prop.name)
+      ?? (prop.inherited ? byList('documentation.excludeInheritedProps', config.excludeInheritedProps, prop.name) : null)
+      ?? byOverrides('excludeProps', prop.name)
+      ?? byRules('prop', prop.name, prop)));
+
+    const methods = doc.methods.filter(method => keep('method', method.name,
+      byList('documentation.excludeMethods', config.excludeMethods, method.name)
+      ?? byOverrides('excludeMethods', method.name)
+      ?? byRules('method', method.name)));
+
+    const styles = doc.styles.filter(style => keep('style', style.className,
+      byList('documentation.excludeStyleClasses', config.excludeStyleClasses, style.className)
+      ?? byOverrides('excludeStyleClasses', style.className)
+      ?? byRules('style', style.className)));
+
+    const events = doc.events.filter(event => keep('event', event.name, byRules('event', event.name)));
+
+    return { ...doc, props, methods, styles, events };
+  }
+
+  /**
+   * Patterns of the configuration that don't compile, so a bad regex fails before generation starts
+   */
+  validate(): string[] {
+    const { documentation } = this.config;
+    const patterns = [
+      ...this.config.includeComponents,
+      ...this.config.excludeComponents,
+      ...this.config.excludeCategories,
+      ...documentation.excludeProps,
+      ...documentation.excludeInheritedProps,
+      ...documentation.excludeMethods,
+      ...documentation.excludeStyleClasses,
+      ...Object.keys(documentation.componentOverrides),
+      ...Object.keys(documentation.categoryOverrides),
+      ...[...Object.values(documentation.componentOverrides), ...Object.values(documentation.categoryOverrides)]
+        .flatMap(values => [...values.excludeProps ?? [], ...values.excludeMethods ?? [], ...values.excludeStyleClasses ?? []]),
+      ...documentation.rules.flatMap(rule => [
+        ...rule.names ?? [], ...rule.keep ?? [], ...rule.categories ?? [],
+        ...rule.components ?? [], ...rule.inheritedFrom ?? [], ...rule.types ?? [],
+      ]),
+    ];
+
+    const errors: string[] = [];
+    for (const pattern of new Set(patterns)) {
+      try {
+        this.matches(pattern, '');
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    return errors;
+  }
+
+  private matches(pattern: NamePattern, value: string): boolean {
+    let matcher = this.matchers.get(pattern);
+    if (!matcher) {
+      matcher = compilePattern(pattern);
+      this.matchers.set(pattern, matcher);
+    }
+    return matcher(value);
+  }
+
+  /**
+   * First pattern matching the value, or null
+   */
+  private findMatch(patterns: NamePattern[], value: string): NamePattern | null {
+    return patterns.find(pattern => this.matches(pattern, value)) ?? null;
+  }
+
+  /**
+   * Component patterns match the folder name or "category/name"
+   */
+  private findComponentMatch(patterns: NamePattern[], component: string, category: string): NamePattern | null {
+    return patterns.find(pattern => this.matches(pattern, component) || this.matches(pattern, `${category}/${component}`)) ?? null;
+  }
+}
@@ -6,128 +6,118 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { SourceExtractor } from './source-extractor.js';
 import { TypeScriptParser } from './ts-parser.js';
-import { ComponentDoc, PropInfo, EventInfo, StyleInfo, MethodInfo } from './types.js';
-import { GeneratorConfig, DEFAULT_CONFIG } from './config.js';
+import { TypeCheckerResolver } from './type-checker.js';
+import { ThemeTokenExtractor } from './theme-tokens.js';
+import { AllowedValuesResolver } from './allowed-values.js';
+import { SourceLayout, detectSourceLayouts, getCategoriesPath } from './source-layout.js';
+import { PropsInheritanceResolver } from './props-inheritance.js';
+import { ChildDiscovery, ChildProposal, CHILD_ACCEPT_SCORE } from './child-discovery.js';
+import { DocFilter, FilterRemoval } from './doc-filter.js';
+import { DocCache } from './doc-cache.js';
+import { ComponentDoc, ComponentSources, PropInfo, EventInfo, StyleInfo, MethodInfo } from './types.js';
+import { GeneratorConfig, DEFAULT_CONFIG, DeepPartial, mergeConfig } from './config.js';
 
 export class DocumentationGenerator {
   private componentsPath: string;
-  private basePropsCache: PropInfo[] | null = null;
+  private basePropsPath: string | null | undefined;
   private config: GeneratorConfig;
-
-  constructor(componentsPath: string, config: Partial<GeneratorConfig> = {}) {
+  private typeResolver: TypeCheckerResolver | null | undefined;
+  private allowedValues = new AllowedValuesResolver();
+  private layouts: SourceLayout[] | null = null;
+  private inheritance: PropsInheritanceResolver;
+  private childProposals: ChildProposal[] | null = null;
+  private generating = new Set<string>();
+  private filter: DocFilter;
+  private cache: DocCache | null = null;
+  private dependencies: Array<Set<string>> = [];
+
+  constructor(componentsPath: string, config: DeepPartial<GeneratorConfig> = {}) {
     this.componentsPath = componentsPath;
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = mergeConfig(DEFAULT_CONFIG, config);
+    this.filter = new DocFilter(this.config);
+    this.inheritance = new PropsInheritanceResolver(
+      componentsPath,
+      this.allowedValues,
+      className => className === 'BaseProps' ? this.findBasePropsFile() : this.findParentPropsFile(className)
+    );
   }
 
   /**
-   * Get and cache BaseProps properties
+   * Lazily build the type-checker resolver (null when disabled or no tsconfig is available)
    */
-  private getBaseProps(): PropInfo[] {
-    if (this.basePropsCache) {
-      return this.basePropsCache;
+  private getTypeResolver(): TypeCheckerResolver | null {
+    if (this.typeResolver !== undefined) {
+      return this.typeResolver;
     }
 
-    try {
-      // Try old format first (.js.map file)
-      const baseComponentPath = path.join(this.componentsPath, 'core', 'base.component.js.map');
-      if (fs.existsSync(baseComponentPath)) {
-        const baseSource = SourceExtractor.extractSourceContent(baseComponentPath);
-
-        if (baseSource) {
-          const propsInfo = TypeScriptParser.extractProps(baseSource);
-          if (propsInfo && propsInfo.className === 'BaseProps') {
-            this.basePropsCache = propsInfo.props;
-            return this.basePropsCache;
-          }
-        }
-      }
-
-      // Try new format (looking for BaseProps type/interface in a TypeScript file)
-      // This might be in a different location, but we'll search common locations
-      const possiblePaths = [
-        path.join(this.componentsPath, 'core', 'base.ts'),
-        path.join(this.componentsPath, 'core', 'base.tsx'),
-        path.join(this.componentsPath, 'common', 'base.ts'),
-        path.join(this.componentsPath, 'common', 'base.tsx'),
-      ];
-
-      for (const basePath of possiblePaths) {
-        if (fs.existsSync(basePath)) {
-          const baseSource = fs.readFileSync(basePath, 'utf-8');
-          const propsInfo = TypeScriptParser.extractProps(baseSource);
-          if (propsInfo && propsInfo.className === 'BaseProps') {
-            this.basePropsCache = propsInfo.props;
-            return this.basePropsCache;
-          }
-        }
+    this.typeResolver = null;
+    if (this.config.typeChecker.enabled) {
+      this.typeResolver = TypeCheckerResolver.create(this.componentsPath, this.config.typeChecker.tsconfigPath);
+      if (!this.typeResolver) {
+        console.warn('No tsconfig.json found for the components tree, falling back to syntax-only parsing');
       }
-    } catch (error) {
-      // BaseProps might be from external package, which is fine
-      // console.warn('Could not extract BaseProps (might be from external package)');
     }
 
-    return [];
+    return this.typeResolver;
   }
 
   /**
-   * Get inherited props from a base class - dynamically resolves ANY parent class
+   * Source layouts used for this tree: the configured one, or every layout that detects it
    */
-  private getInheritedProps(baseClassName: string): PropInfo[] {
-    const inheritedProps: PropInfo[] = [];
-
-    // Handle BaseProps (special case - use cached props)
-    if (baseClassName === 'BaseProps') {
-      return this.getBaseProps().map(prop => ({
-        ...prop,
-        inherited: true,
-        inheritedFrom: 'BaseProps',
-      }));
+  private getLayouts(): SourceLayout[] {
+    if (!this.layouts) {
+      this.layouts = detectSourceLayouts(this.componentsPath, this.config.sourceLayout);
     }
+    return this.layouts;
+  }
 
-    const parentPropsPath = this.findParentPropsFile(baseClassName);
-    console.log(`Debug: Resolving parent ${baseClassName} -> ${parentPropsPath}`);
+  /**
+   * Layout that recognises a component folder (the first active one when none claims it)
+   */
+  private getLayoutFor(componentPath: string): SourceLayout {
+    const layouts = this.getLayouts();
+    const entries = fs.readdirSync(componentPath, { withFileTypes: true });
+    return layouts.find(layout => layout.isComponentDir(componentPath, entries)) ?? layouts[0];
+  }
 
-    if (!parentPropsPath) {
-      console.warn(`Could not find props file for parent class: ${baseClassName}`);
-      return inheritedProps;
+  /**
+   * Read a component's sources from the files its source layout locates
+   */
+  private readComponentSources(componentPath: string): ComponentSources {
+    const located = this.getLayoutFor(componentPath).locateFiles(componentPath);
+    return SourceExtractor.readComponentFiles(componentPath, located);
+  }
+
+  /**
+   * Find and cache the file declaring BaseProps, for props files that don't import it
+   */
+  private findBasePropsFile(): string | null {
+    if (this.basePropsPath !== undefined) {
+      return this.basePropsPath;
     }
 
+    this.basePropsPath = null;
     try {
-      const source = SourceExtractor.extractSourceContent(parentPropsPath);
-      // console.log(`Debug: Source length for ${baseClassName}: ${source?.length}`);
-
-      if (source) {
-        const propsInfo = TypeScriptParser.extractProps(source);
-        if (propsInfo) {
-          console.log(`Debug: Extracted ${propsInfo.props.length} props for ${baseClassName}. Base: ${propsInfo.baseClass}`);
-          // propsInfo.props.forEach(p => console.log(`  - ${p.name}`));
-
-          // Add parent's own props
-          inheritedProps.push(
-            ...propsInfo.props.map(prop => ({
-              ...prop,
-              inherited: true,
-              inheritedFrom: baseClassName,
-            }))
-          );
-
-          // Recursively get grandparent props
-          if (propsInfo.baseClass) {
-            inheritedProps.push(...this.getInheritedProps(propsInfo.baseClass));
+      // Each layout knows where its library declares BaseProps
+      for (const layout of this.getLayouts()) {
+        for (const basePath of layout.locateBaseFiles(this.componentsPath)) {
+          if (!fs.existsSync(basePath)) continue;
+
+          const baseSource = SourceExtractor.readSourceFile(basePath);
+          if (baseSource && TypeScriptParser.extractProps(baseSource, 'BaseProps')) {
+            this.basePropsPath = basePath;
+            return basePath;
           }
         }
       }
     } catch (error) {
-      console.error(`Error extracting ${baseClassName}:`, error);
+      // BaseProps might be from external package, which is fine
+      // console.warn('Could not extract BaseProps (might be from external package)');
     }
 
-    return inheritedProps;
+    return null;
   }
 
-  /**
-   * Find the props file for a parent class by searching the library
-   * Handles BaseInputProps, BaseChartComponentProps, etc.
-   */
   /**
    * Find the props file for a parent class by searching the library
    * Handles BaseInputProps, BaseChartComponentProps, etc.
@@ -162,19 +152,19 @@ export class DocumentationGenerator {
 
     // Search in common locations
     const searchPaths = [
-      path.join(this.componentsPath, 'components'),
+      getCategoriesPath(this.componentsPath),
       path.join(this.componentsPath, 'core'),
     ];
 
     for (const fileName of uniqueCandidates) {
-      const propsFileName = `${fileName}.props.js.map`;
-
-      for (const searchPath of searchPaths) {
-        if (!fs.existsSync(searchPath)) continue;
+      for (const propsFileName of [`${fileName}.props.js.map`, `${fileName}.props.ts`, `${fileName}.props.tsx`]) {
+        for (const searchPath of searchPaths) {
+          if (!fs.existsSync(searchPath)) continue;
 
-        const found = this.searchForFile(searchPath, propsFileName);
-        if (found) {
-          return found;
+          const found = this.searchForFile(searchPath, propsFileName);
+          if (found) {
+            return found;
+          }
         }
       }
     }
@@ -207,89 +197,166 @@ export class DocumentationGenerator {
   }
 
   /**
-   * Apply configuration filters to component documentation
+   * Components, props, methods, style classes and events removed by the configuration so far
    */
-  private filterComponentDoc(doc: ComponentDoc): ComponentDoc {
-    const config = this.config.documentation;
+  getFilterReport(): FilterRemoval[] {
+    return this.filter.getRemovals();
+  }
 
-    // Filter props
-    const filteredProps = doc.props.filter(prop => {
-      // Check global exclusions
-      if (config.excludeProps.includes(prop.name)) return false;
+  /**
+   * Reuse docs of unchanged components from a persistent cache.
+   * Settings that change the JSON are part of its fingerprint; LLM and template settings are not.
+   */
+  useCache(filePath: string): DocCache {
+    // The components tree itself isn't part of it: paths in the cache are relative to the tree
+    const { llm, cache, templates, componentsSourcePath, ...settings } = this.config;
+    this.cache = new DocCache(filePath, settings, this.componentsPath);
+    return this.cache;
+  }
 
-      // Check inherited exclusions
-      if (prop.inherited && config.excludeInheritedProps.includes(prop.name)) {
-        return false;
-      }
+  /**
+   * Record a file the component being generated was read from
+   */
+  private addDependency(filePath: string | undefined): void {
+    if (filePath) {
+      this.dependencies[this.dependencies.length - 1]?.add(path.resolve(filePath));
+    }
+  }
 
-      // Check component-specific exclusions
-      const overrides = config.componentOverrides[doc.componentName];
-      if (overrides?.excludeProps?.includes(prop.name)) return false;
+  /**
+   * Record the modules a source imports with relative paths (enums, shared types, allowed values)
+   */
+  private addImportDependencies(source: string, fromFile: string): void {
+    const importPattern = /(?:from|import)\s*['"](\.{1,2}\/[^'"]+)['"]/g;
 
-      return true;
-    });
+    let match;
+    while ((match = importPattern.exec(source)) !== null) {
+      this.addDependency(SourceExtractor.resolveModulePath(path.resolve(path.dirname(fromFile), match[1])) ?? undefined);
+    }
+  }
 
-    // Filter methods
-    const filteredMethods = doc.methods.filter(method => {
-      if (config.excludeMethods.includes(method.name)) return false;
+  /**
+   * Generate documentation for a single component, or take it from the cache when none of
+   * the files it was generated from changed
+   */
+  generateComponentDoc(componentPath: string, category: string): ComponentDoc | null {
+    // Children are cached as part of their parent: what they contain depends on the parent being generated
+    const cacheable = this.cache !== null && this.generating.size === 0;
+    const cacheKey = this.getCacheKey(componentPath, category);
+    const childPaths = cacheable ? this.getChildPaths(componentPath) : [];
+
+    if (cacheable) {
+      const cached = this.cache!.get(cacheKey, childPaths);
+      if (cached) {
+        this.filter.addRemovals(cached.removals);
+        return cached.doc;
+      }
+    }
 
-      const overrides = config.componentOverrides[doc.componentName];
-      if (overrides?.excludeMethods?.includes(method.name)) return false;
+    const dependencies = new Set<string>();
+    const removalCount = this.filter.getRemovals().length;
 
-      return true;
-    });
+    this.dependencies.push(dependencies);
+    this.addDependency(componentPath);
+    const doc = this.buildComponentDoc(componentPath, category);
+    this.dependencies.pop();
 
-    // Filter style classes
-    const filteredStyles = doc.styles.filter(style => {
-      if (config.excludeStyleClasses.includes(style.className)) return false;
+    // A child's files are dependencies of its parent
+    dependencies.forEach(dependency => this.addDependency(dependency));
 
-      const overrides = config.componentOverrides[doc.componentName];
-      if (overrides?.excludeStyleClasses?.includes(style.className)) return false;
+    if (doc && cacheable) {
+      this.cache!.set(cacheKey, doc, dependencies, childPaths, this.filter.getRemovals().slice(removalCount));
+    }
 
-      return true;
-    });
+    return doc;
+  }
 
-    return {
-      ...doc,
-      props: filteredProps,
-      methods: filteredMethods,
-      styles: filteredStyles,
-    };
+  private getCacheKey(componentPath: string, category: string): string {
+    return `${category}/${path.relative(this.componentsPath, componentPath).split(path.sep).join('/')}`;
   }
 
   /**
-   * Generate documentation for a single component
+   * Folders of the children a component would be generated with now
    */
-  generateComponentDoc(componentPath: string, category: string): ComponentDoc | null {
+  private getChildPaths(componentPath: string): string[] {
+    return this.resolveChildPaths(path.basename(componentPath), componentPath).map(([, childPath]) => path.resolve(childPath));
+  }
+
+  private buildComponentDoc(componentPath: string, category: string): ComponentDoc | null {
     try {
-      // Extract sources
-      const sources = SourceExtractor.extractComponentSources(componentPath);
+      // Extract sources from the files the source layout locates
+      const sources = this.readComponentSources(componentPath);
+
+      // Report maps without recoverable sources instead of silently skipping them
+      for (const missing of sources.missingContent) {
+        console.warn(`Missing sourcesContent: ${missing}`);
+      }
 
       if (!sources.props && !sources.component) {
-        console.warn(`No source files found for ${componentPath}`);
+        if (sources.missingContent.length > 0) {
+          console.error(`Skipping ${componentPath}: its source maps carry no original sources (${sources.missingContent.length} entries missing)`);
+        } else {
+          console.warn(`No source files found for ${componentPath}`);
+        }
         return null;
       }
 
+      for (const entry of sources.files) {
+        this.addDependency(entry.origin);
+        this.addImportDependencies(entry.content, entry.origin);
+      }
+      this.addDependency(sources.propsPath);
+
       const componentName = path.basename(componentPath);
 
       // Parse props
       let allProps: PropInfo[] = [];
       let baseClass: string | undefined;
-
-      if (sources.props) {
+      let inheritanceChain: string[] | undefined;
+      let propsClassName: string | undefined;
+
+      // Prefer the type checker when enabled, it sees through aliases, utility types and imports
+      const resolved = sources.propsPath ? this.getTypeResolver()?.resolveProps(sources.propsPath) : null;
+
+      if (resolved) {
+        allProps = resolved.props;
+        propsClassName = resolved.className;
+        baseClass = resolved.baseClass;
+        inheritanceChain = resolved.inheritanceChain;
+        allProps.forEach(prop => prop.declaredIn && this.addDependency(path.resolve(this.componentsPath, prop.declaredIn)));
+      } else if (sources.props) {
         const propsInfo = TypeScriptParser.extractProps(sources.props);
         if (propsInfo) {
+          // The file the props came from (a .ts file or the map carrying it), so its imports can be followed
+          const propsFile = sources.propsPath
+            ?? sources.files.find(entry => entry.content === sources.props)?.origin
+            ?? path.join(componentPath, 'index.ts');
+
+          this.allowedValues.apply(propsInfo.props, sources.props, path.dirname(propsFile));
           allProps = propsInfo.props;
+          propsClassName = propsInfo.className;
           baseClass = propsInfo.baseClass;
 
-          // Get inherited props
-          if (baseClass) {
-            const inheritedProps = this.getInheritedProps(baseClass);
-            allProps.push(...inheritedProps);
+          // Get inherited props, following the imports of the props file through every extends clause
+          const inherited = this.inheritance.resolve(
+            propsInfo.baseClasses, sources.props, propsFile, propsInfo.className, propsInfo.baseTypeFilters);
+          inheritanceChain = inherited.inheritanceChain;
+          inherited.files.forEach(file => this.addDependency(file));
+
+          // A prop redeclared closer to the component shadows the inherited one
+          for (const prop of inherited.props) {
+            if (!allProps.some(existing => existing.name === prop.name)) {
+              allProps.push(prop);
+            }
           }
         }
       }
 
+      // Correlate the props declaration with runtime defaults from the component
+      if (sources.component) {
+        this.applyDefaultValues(allProps, sources.component, propsClassName);
+      }
+
       // Parse methods
       let methods: MethodInfo[] = [];
       if (sources.component) {
@@ -301,39 +368,40 @@ export class DocumentationGenerator {
 
       // Extract events from both props and invokeEventCallback calls
       const propsEvents: EventInfo[] = TypeScriptParser.extractEvents(allProps).map(e => ({
-        name: e.name,
-        type: e.type,
+        ...e,
         parameters: this.extractEventParameters(e.type),
       }));
 
-      // Extract events from JavaScript invokeEventCallback calls
+      // Extract events from invokeEventCallback calls in the component source
       // We need to scan both the component itself and any referenced components it uses
       const jsFile = path.join(componentPath, `${componentName}.component.js`);
+      const componentSource = sources.component ?? (fs.existsSync(jsFile) ? fs.readFileSync(jsFile, 'utf-8') : null);
       let callbackEvents: EventInfo[] = [];
 
-      if (fs.existsSync(jsFile)) {
-        const jsContent = fs.readFileSync(jsFile, 'utf-8');
-
+      if (componentSource) {
         // Extract events from this component
-        const events = TypeScriptParser.extractEventCallbacks(jsContent);
+        const events = TypeScriptParser.extractEventCallbacks(componentSource, allProps);
         events.forEach(e => {
           callbackEvents.push({
             name: e.name,
             type: 'Function',
             parameters: e.parameters,
+            args: e.args,
+            callSites: e.callSites,
           });
         });
 
         // Find all referenced component files that this component imports/uses
         // Look for patterns like: import { Tappable } from '...path.../tappable.component'
-        // or React.createElement(Tappable, ...)
-        const referencedComponents = this.findReferencedComponents(jsContent);
+        const referencedComponents = this.findReferencedComponents(componentSource);
 
         // Extract events from referenced components
         for (const refComponentPath of referencedComponents) {
-          if (fs.existsSync(refComponentPath)) {
-            const refContent = fs.readFileSync(refComponentPath, 'utf-8');
-            const refEvents = TypeScriptParser.extractEventCallbacks(refContent);
+          this.addDependency(refComponentPath);
+          this.addDependency(`${refComponentPath}.map`);
+          const refContent = this.readReferencedSource(refComponentPath);
+          if (refContent) {
+            const refEvents = TypeScriptParser.extractEventCallbacks(refContent, allProps);
             refEvents.forEach(e => {
               // Only add if not already present
               if (!callbackEvents.find(existing => existing.name === e.name)) {
@@ -341,6 +409,8 @@ export class DocumentationGenerator {
                   name: e.name,
                   type: 'Function',
                   parameters: e.parameters,
+                  args: e.args,
+                  callSites: e.callSites,
                 });
               }
             });
@@ -349,9 +419,18 @@ export class DocumentationGenerator {
       }
 
       // Merge events, preferring callback events over prop events (more accurate parameters)
+      // but keeping the JSDoc written on the event prop
       const eventMap = new Map<string, EventInfo>();
       propsEvents.forEach(e => eventMap.set(e.name, e));
-      callbackEvents.forEach(e => eventMap.set(e.name, e)); // Overwrites if duplicate
+      callbackEvents.forEach(e => {
+        const propEvent = eventMap.get(e.name);
+        eventMap.set(e.name, propEvent ? {
+          ...e,
+          description: propEvent.description,
+          deprecated: propEvent.deprecated,
+          deprecationMessage: propEvent.deprecationMessage,
+        } : e);
+      });
       const events: EventInfo[] = Array.from(eventMap.values());
 
       // Parse styles
@@ -359,44 +438,52 @@ export class DocumentationGenerator {
       if (sources.styles) {
         const styleInfo = TypeScriptParser.extractStyleClasses(sources.styles);
         if (styleInfo) {
+          const ruleFor = (cls: string) => {
+            const rule = styleInfo.rules[cls];
+            if (!rule) return {};
+            return {
+              extends: rule.extends,
+              properties: Object.keys(rule.properties).length > 0 ? rule.properties : undefined,
+            };
+          };
+
           styles = [
             {
               className: styleInfo.defaultClass,
               description: 'Default style class',
+              ...ruleFor(styleInfo.defaultClass),
             },
             ...styleInfo.styleClasses
               .filter(cls => cls !== styleInfo.defaultClass)
               .map(cls => ({
                 className: cls,
+                ...ruleFor(cls),
               })),
           ];
         }
       }
 
-      // Check for child components
+      // Child components: discovered from source, with childComponents as an override
       const childData: ComponentDoc[] = [];
-      const childConfig = this.config.childComponents[componentName];
-
-      if (childConfig) {
-        // console.log(`Processing children for ${componentName}...`, Object.keys(childConfig));
-        for (const [childName, relativePath] of Object.entries(childConfig)) {
-          const childPath = path.resolve(componentPath, relativePath);
-
-          if (fs.existsSync(childPath)) {
-            // Generate docs for the child
-            // Note: We use the same category as the parent
-            const childDoc = this.generateComponentDoc(childPath, category);
-            if (childDoc) {
-              // Override the name to match the key in config if needed, or keep extracted name
-              // Here we keep the extracted name but maybe we should ensure it matches
-              childData.push(childDoc);
-            }
-          } else {
-            console.warn(`Child component path not found: ${childPath} (for ${childName} in ${componentName})`);
+      this.generating.add(componentPath);
+
+      for (const [childName, childPath] of this.resolveChildPaths(componentName, componentPath)) {
+        if (this.generating.has(childPath)) continue;
+
+        if (fs.existsSync(childPath)) {
+          // Generate docs for the child
+          // Note: We use the same category as the parent
+          const childDoc = this.generateComponentDoc(childPath, category);
+          if (childDoc) {
+            childData.push(childDoc);
           }
+        } else {
+          console.warn(`Child component path not found: ${childPath} (for ${childName} in ${componentName})`);
         }
       }
 
+      this.generating.delete(componentPath);
+
       const doc: ComponentDoc = {
         componentName,
         componentPath,
@@ -406,17 +493,86 @@ export class DocumentationGenerator {
         events,
         styles,
         baseClass,
+        inheritanceChain,
+        runtimeVersion: this.config.runtimeVersion,
         children: childData.length > 0 ? childData : undefined,
       };
 
       // Apply filters before returning
-      return this.filterComponentDoc(doc);
+      return this.filter.filterDoc(doc);
     } catch (error) {
       console.error(`Error generating docs for ${componentPath}:`, error);
       return null;
     }
   }
 
+  /**
+   * Children of a component: discovered ones that score high enough, then the childComponents
+   * entries for the parent, which add a child, point it elsewhere or drop it with `false`
+   */
+  private resolveChildPaths(componentName: string, componentPath: string): Array<[string, string]> {
+    // Keyed by path, so an override naming a discovered child differently doesn't list it twice
+    const children = new Map<string, string>();
+
+    if (this.config.childDiscovery) {
+      this.discoverChildren()
+        .filter(proposal => proposal.parentPath === componentPath && proposal.score >= CHILD_ACCEPT_SCORE)
+        .forEach(proposal => children.set(proposal.childPath, proposal.child));
+    }
+
+    for (const [childName, relativePath] of Object.entries(this.config.childComponents[componentName] ?? {})) {
+      if (relativePath === false) {
+        children.forEach((name, childPath) => {
+          if (name === childName) children.delete(childPath);
+        });
+      } else {
+        children.set(path.resolve(componentPath, relativePath), childName);
+      }
+    }
+
+    return Array.from(children.entries()).map(([childPath, childName]) => [childName, childPath]);
+  }
+
+  /**
+   * Parent-child proposals for the whole tree, computed once
+   */
+  discoverChildren(): ChildProposal[] {
+    if (!this.childProposals) {
+      const discovery = new ChildDiscovery(this.listComponentDirs(), dir => this.readComponentSources(dir));
+      this.childProposals = discovery.discover();
+    }
+    return this.childProposals;
+  }
+
+  /**
+   * Fill default values from the component source and record where each one came from.
+   * Runtime defaults (destructuring, defaultProps) win over declared ones (initializer, @default).
+   */
+  private applyDefaultValues(props: PropInfo[], componentSource: string, propsClassName?: string): void {
+    const { defaults, constructorPropsClass } = TypeScriptParser.extractDefaultValues(componentSource, propsClassName);
+
+    // super(props, DEFAULT_CLASS, new WmButtonProps()) - the class initializers are the runtime defaults
+    if (constructorPropsClass && constructorPropsClass === propsClassName) {
+      props
+        .filter(prop => prop.defaultSource === 'initializer')
+        .forEach(prop => prop.defaultSource = 'constructor');
+    }
+
+    // React applies defaultProps before destructuring defaults are consulted, so they are applied last
+    const ordered = [
+      ...defaults.filter(d => d.source === 'destructuring'),
+      ...defaults.filter(d => d.source === 'defaultProps'),
+    ];
+
+    for (const { name, value, source } of ordered) {
+      const prop = props.find(p => p.name === name);
+      if (prop) {
+        prop.defaultValue = value;
+        prop.defaultSource = source;
+      }
+    }
+  }
+
   /**
    * Find all referenced component files that this component imports/uses
    * Looks for import statements to find dependencies
@@ -440,6 +596,19 @@ export class DocumentationGenerator {
     return componentPaths;
   }
 
+  /**
+   * Read a referenced component, preferring the original TypeScript from its source map
+   */
+  private readReferencedSource(jsPath: string): string | null {
+    const mapPath = `${jsPath}.map`;
+    if (fs.existsSync(mapPath)) {
+      const content = SourceExtractor.extractSourceContent(mapPath);
+      if (content) return content;
+    }
+
+    return fs.existsSync(jsPath) ? fs.readFileSync(jsPath, 'utf-8') : null;
+  }
+
   /**
    * Extract parameter information from event type
    */
@@ -459,50 +628,23 @@ export class DocumentationGenerator {
   }
 
   /**
-   * Find all component directories in library
+   * Every component folder the active layouts list, before the includeComponents whitelist
    */
-  /**
-   * Recursive function to find components in a directory
-   */
-  private findComponentsInDir(dirPath: string, category: string, components: Array<{ path: string; category: string }>): void {
-    const items = fs.readdirSync(dirPath, { withFileTypes: true });
-
-    // Check if this directory itself is a component
-    // Support both old format (.component.js.map, .props.js.map) and new format (index.tsx)
-    const hasComponentFiles = items.some(item =>
-      item.isFile() && (
-        item.name.endsWith('.component.js.map') ||
-        item.name.endsWith('.props.js.map') ||
-        item.name === 'index.tsx' ||
-        item.name === 'index.ts'
-      )
-    );
-
-    if (hasComponentFiles) {
-      // It's a component!
-      const componentName = path.basename(dirPath);
+  private listComponentDirs(): Array<{ path: string; category: string }> {
+    const components: Array<{ path: string; category: string }> = [];
 
-      // Check inclusions based on folder name
-      // If includeComponents is empty or not configured, include all components
-      // Otherwise, use the whitelist
-      if (this.config.includeComponents.length === 0 || this.config.includeComponents.includes(componentName)) {
-        components.push({ path: dirPath, category });
-      } else {
-        // console.log(`Skipping ${componentName} (not in includeComponents)`);
+    // A folder matched by several layouts (e.g. index.tsx next to compiled maps) is listed once
+    const seen = new Set<string>();
+    for (const layout of this.getLayouts()) {
+      for (const component of layout.listComponents(this.componentsPath, this.config.excludeCategories)) {
+        if (!seen.has(component.path)) {
+          seen.add(component.path);
+          components.push(component);
+        }
       }
-
-      // We don't stop here, because nested components might exist (though unlikely in this specific structure, but safe to traverse)
     }
 
-    // Recurse into subdirectories
-    for (const item of items) {
-      if (item.isDirectory()) {
-        // Skip node_modules or hidden folders
-        if (item.name.startsWith('.') || item.name === 'node_modules') continue;
-
-        this.findComponentsInDir(path.join(dirPath, item.name), category, components);
-      }
-    }
+    return components;
   }
 
   /**
@@ -516,42 +658,58 @@ export class DocumentationGenerator {
       return components;
     }
 
-    // Check if we should search directly in componentsPath or in a components subdirectory
-    const categoriesPath = fs.existsSync(path.join(this.componentsPath, 'components'))
-      ? path.join(this.componentsPath, 'components')
-      : this.componentsPath;
+    console.log(`Scanning categories in: ${getCategoriesPath(this.componentsPath)}`);
+    console.log(`Source layouts: ${this.getLayouts().map(layout => layout.name).join(', ')}`);
 
-    console.log(`Scanning categories in: ${categoriesPath}`);
+    // excludeCategories, then the includeComponents whitelist, then excludeComponents
+    components.push(...this.filter.filterComponents(this.listComponentDirs()));
 
-    const categories = fs.readdirSync(categoriesPath, { withFileTypes: true })
-      .filter(dirent => dirent.isDirectory())
-      .map(dirent => dirent.name)
-      .filter(name => !this.config.excludeCategories.includes(name)); // Exclude configured categories
-
-    console.log(`Found ${categories.length} categories:`, categories.join(', '));
-
-    for (const category of categories) {
-      const categoryPath = path.join(categoriesPath, category);
-      const beforeCount = components.length;
-      this.findComponentsInDir(categoryPath, category, components);
-      const afterCount = components.length;
-      console.log(`  ${category}: found ${afterCount - beforeCount} components`);
-    }
+    const byCategory = new Map<string, number>();
+    components.forEach(c => byCategory.set(c.category, (byCategory.get(c.category) ?? 0) + 1));
+    console.log(`Found ${byCategory.size} categories:`, [...byCategory.keys()].join(', '));
+    byCategory.forEach((count, category) => console.log(`  ${category}: found ${count} components`));
 
     console.log(`\nTotal components found: ${components.length}`);
 
     if (components.length === 0 && this.config.includeComponents.length > 0) {
       console.warn('\nWarning: No components found. This might be because:');
       console.warn('1. The includeComponents whitelist is filtering out all components');
-      console.warn('2. The component directory structure is different than expected');
+      console.warn('2. The component directory structure is different than expected (see --layout)');
       console.warn('3. Components don\'t have index.tsx/index.ts files');
       console.warn('\nTip: Set includeComponents to an empty array [] to include all components');
     }
 
-    // Filter duplicates if any (though path key should be unique)
     return components;
   }
 
+  /**
+   * Documented components affected by changed files: the component whose folder holds a file,
+   * every component generated from one (inheriting from a changed parent, importing it,
+   * or embedding a changed child), and every component that gains or loses a child.
+   * Dependencies come from the cache set with useCache.
+   */
+  findAffectedComponents(changedFiles: string[]): Array<{ path: string; category: string }> {
+    const changed = changedFiles.map(file => path.resolve(file));
+    const components = this.filter.filterComponents(this.listComponentDirs());
+
+    // A file belongs to the innermost component folder holding it (nested components have their own)
+    const owners = new Set<string>();
+    for (const file of changed) {
+      const owner = components
+        .map(c => path.resolve(c.path))
+        .filter(dir => file.startsWith(dir + path.sep))
+        .sort((a, b) => b.length - a.length)[0];
+      if (owner) owners.add(owner);
+    }
+
+    return components.filter(c => {
+      const key = this.getCacheKey(c.path, c.category);
+      return owners.has(path.resolve(c.path)) ||
+        (this.cache?.dependsOn(key, changed) ?? false) ||
+        (this.cache?.childrenChanged(key, this.getChildPaths(c.path)) ?? false);
+    });
+  }
+
   /**
    * Generate documentation for all components
    */
@@ -571,6 +729,8 @@ export class DocumentationGenerator {
       }
     }
 
+    this.cache?.retain(components.map(c => this.getCacheKey(c.path, c.category)));
+
     return docs;
   }
 
@@ -601,4 +761,24 @@ export class DocumentationGenerator {
     fs.writeFileSync(filePath, JSON.stringify(doc, null, 2), 'utf-8');
     console.log(`Saved ${fileName}`);
   }
+
+  /**
+   * Save the theme token catalog (tokens.json) next to the component JSON
+   */
+  saveTokenCatalog(docs: ComponentDoc[], outputDir: string): void {
+    const themeFile = ThemeTokenExtractor.findThemeVariablesFile(this.componentsPath, this.config.themeVariablesPath);
+    if (!themeFile) {
+      console.warn('Theme variables definition not found, tokens.json will only list tokens referenced by styles');
+    }
+
+    const catalog = ThemeTokenExtractor.buildCatalog(docs, themeFile, this.componentsPath);
+
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const filePath = path.join(outputDir, 'tokens.json');
+    fs.writeFileSync(filePath, JSON.stringify(catalog, null, 2), 'utf-8');
+    console.log(`Saved tokens.json (${catalog.tokens.length} tokens)`);
+  }
 }
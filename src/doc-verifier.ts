@@ -0,0 +1,280 @@
+/**
+ * Fact-checks the generated markdown (props.md, events.md, methods.md, styling.md) against the
+ * ComponentDoc it was generated from: hallucinated entries, missing entries and wrong types
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiDiff } from './api-diff.js';
+import { FilterRemoval } from './doc-filter.js';
+import { getTableEntries, TABLE_HEADERS, TableEntry } from './markdown-tables.js';
+import { getStorybookDocsDir } from './storybook-docs.js';
+import { AllowedValue, ComponentDoc } from './types.js';
+
+export type VerifiedSection = 'props' | 'events' | 'methods' | 'styling';
+
+export interface VerifyIssue {
+  section: VerifiedSection;
+  name: string;
+  /**
+   * hallucinated: listed but not in the component; missing: in the component but not listed;
+   * type-mismatch: listed with a type the component doesn't have
+   */
+  problem: 'hallucinated' | 'missing' | 'type-mismatch';
+  detail?: string;
+}
+
+export interface VerifyReport {
+  component: string;
+  docsDir: string;
+  /**
+   * Sections whose markdown file exists and was checked
+   */
+  verified: VerifiedSection[];
+  issues: VerifyIssue[];
+}
+
+/**
+ * What the component declares for a listed name: its type (or return type), and a prop's allowed values
+ */
+interface KnownItem {
+  type: string;
+  allowedValues?: AllowedValue[];
+}
+
+interface SectionSpec {
+  file: string;
+  headers: string[];
+  kind: FilterRemoval['kind'];
+  /**
+   * Items the section must list (the component's own, plus its children's where the prompt asks for them)
+   */
+  required: (doc: ComponentDoc, children: ComponentDoc[]) => string[];
+  /**
+   * Items the section may list
+   */
+  known: (doc: ComponentDoc, children: ComponentDoc[]) => Map<string, KnownItem>;
+  /**
+   * Header of the column holding the type, and the aliases models use for it
+   */
+  typeColumns?: string[];
+}
+
+const SECTIONS: Record<VerifiedSection, SectionSpec> = {
+  props: {
+    file: 'props.md',
+    headers: TABLE_HEADERS.prop,
+    kind: 'prop',
+    required: (doc, children) => [doc, ...children].flatMap(d => d.props.map(p => p.name)),
+    known: (doc, children) => new Map([doc, ...children].flatMap(d => d.props.map(p => [p.name, { type: p.type, allowedValues: p.allowedValues }] as [string, KnownItem]))),
+    typeColumns: ['type', 'types'],
+  },
+  events: {
+    file: 'events.md',
+    headers: TABLE_HEADERS.event,
+    kind: 'event',
+    required: (doc, children) => [doc, ...children].flatMap(d => d.events.map(e => e.name)),
+    known: (doc, children) => new Map([doc, ...children].flatMap(d => d.events.map(e => [e.name, { type: e.type }] as [string, KnownItem]))),
+  },
+  methods: {
+    file: 'methods.md',
+    headers: TABLE_HEADERS.method,
+    kind: 'method',
+    required: doc => doc.methods.map(m => m.name),
+    known: (doc, children) => new Map([doc, ...children].flatMap(d => d.methods.map(m => [m.name, { type: m.returnType }] as [string, KnownItem]))),
+    typeColumns: ['return type', 'returns', 'return'],
+  },
+  styling: {
+    file: 'styling.md',
+    headers: TABLE_HEADERS.style,
+    kind: 'style',
+    required: doc => doc.styles.map(s => s.className),
+    known: (doc, children) => new Map([doc, ...children].flatMap(d => d.styles.map(s => [s.className, { type: '' }] as [string, KnownItem]))),
+  },
+};
+
+/**
+ * Types that say nothing, so any documented type agrees with them
+ */
+const OPAQUE_TYPES = ['', 'any', 'unknown'];
+
+export class DocVerifier {
+  /**
+   * Check one component's markdown files in its Storybook docs folder
+   * @param removals - Items removed by the configuration, which may be listed and needn't be
+   */
+  static verifyComponent(doc: ComponentDoc, storybookPath: string, removals: FilterRemoval[] = []): VerifyReport {
+    const docsDir = getStorybookDocsDir(storybookPath, doc.componentName);
+    const report: VerifyReport = { component: doc.componentName, docsDir, verified: [], issues: [] };
+
+    for (const section of Object.keys(SECTIONS) as VerifiedSection[]) {
+      const filePath = path.join(docsDir, SECTIONS[section].file);
+      if (!fs.existsSync(filePath)) continue;
+
+      report.verified.push(section);
+      report.issues.push(...this.verifySection(doc, section, fs.readFileSync(filePath, 'utf-8'), removals));
+    }
+
+    return report;
+  }
+
+  /**
+   * Markdown file holding a section, in the component's docs folder
+   */
+  static getSectionFile(section: VerifiedSection): string {
+    return SECTIONS[section].file;
+  }
+
+  /**
+   * Names a section must list, so a component without any needn't have the file
+   */
+  static getRequiredNames(doc: ComponentDoc, section: VerifiedSection): string[] {
+    return [...new Set(SECTIONS[section].required(doc, doc.children ?? []))];
+  }
+
+  /**
+   * Compare the tables of one section's markdown with the component
+   */
+  static verifySection(doc: ComponentDoc, section: VerifiedSection, markdown: string, removals: FilterRemoval[] = []): VerifyIssue[] {
+    const spec = SECTIONS[section];
+    const children = doc.children ?? [];
+    const family = new Set([doc.componentName, ...children.map(child => child.componentName)]);
+    const excluded = new Set(removals
+      .filter(removal => removal.kind === spec.kind && family.has(removal.component))
+      .map(removal => removal.name));
+
+    const known = spec.known(doc, children);
+    const entries = getTableEntries(markdown, spec.headers);
+    const listed = new Set(entries.map(entry => entry.name));
+    const issues: VerifyIssue[] = [];
+
+    for (const entry of entries) {
+      if (!known.has(entry.name)) {
+        // A name listed twice (e.g. in two tables) is reported once
+        if (!excluded.has(entry.name) && !issues.some(issue => issue.name === entry.name)) {
+          issues.push({ section, name: entry.name, problem: 'hallucinated' });
+        }
+        continue;
+      }
+
+      const documentedType = this.getTypeCell(entry, spec.typeColumns);
+      const { type: actualType, allowedValues } = known.get(entry.name)!;
+      if (documentedType !== null && !this.typesAgree(documentedType, actualType, allowedValues)) {
+        issues.push({ section, name: entry.name, problem: 'type-mismatch', detail: `documented as ${documentedType}, source has ${actualType}` });
+      }
+    }
+
+    for (const name of this.getRequiredNames(doc, section)) {
+      if (!listed.has(name)) {
+        issues.push({ section, name, problem: 'missing' });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Whether a documented type describes the source type. Models simplify, so a documented member may
+   * generalise source members: string for string literals or named types, number for numeric literals,
+   * function for signatures, array for T[], object for object literals, records and named types.
+   * A union listing exactly the prop's allowed values agrees too: the prompt asks for them in place of a named type.
+   */
+  static typesAgree(documented: string, actual: string, allowedValues: AllowedValue[] = []): boolean {
+    const normalize = (type: string) => type
+      .replace(/`/g, '')
+      .replace(/\\\|/g, '|')
+      .replace(/"/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const doc = normalize(documented);
+    const source = normalize(actual);
+    if (OPAQUE_TYPES.includes(doc.toLowerCase()) || OPAQUE_TYPES.includes(source.toLowerCase()) || doc === '-') {
+      return true;
+    }
+
+    const docMembers = ApiDiff.splitUnion(doc);
+    if (this.listsAllowedValues(docMembers, allowedValues)) {
+      return true;
+    }
+
+    const sourceMembers = ApiDiff.splitUnion(source);
+    return docMembers.every(member => sourceMembers.some(sourceMember => this.covers(member, sourceMember)));
+  }
+
+  static formatText(reports: VerifyReport[], basePath: string = process.cwd()): string {
+    const withIssues = reports.filter(report => report.issues.length > 0);
+    const verified = reports.filter(report => report.verified.length > 0);
+    const lines = withIssues.length === 0
+      ? [`✓ Markdown of ${verified.length} components agrees with the source`]
+      : [`✗ ${withIssues.reduce((sum, r) => sum + r.issues.length, 0)} problems in ${withIssues.length} of ${verified.length} components`];
+
+    for (const report of withIssues) {
+      lines.push('', `${report.component} (${path.relative(basePath, report.docsDir)})`);
+      report.issues.forEach(issue => lines.push(`  ✗ ${this.describe(issue)}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  static formatJson(reports: VerifyReport[]): string {
+    return JSON.stringify(reports, null, 2);
+  }
+
+  /**
+   * "props.md lists `size`, which the component doesn't have", as shown in reports and sent back to the model
+   */
+  static describe(issue: VerifyIssue): string {
+    const file = SECTIONS[issue.section].file;
+    switch (issue.problem) {
+      case 'hallucinated':
+        return `${file} lists \`${issue.name}\`, which the component doesn't have`;
+      case 'missing':
+        return `${file} doesn't list \`${issue.name}\``;
+      case 'type-mismatch':
+        return `${file}: \`${issue.name}\` is ${issue.detail}`;
+    }
+  }
+
+  private static getTypeCell(entry: TableEntry, columns?: string[]): string | null {
+    const column = columns?.find(name => name in entry.cells);
+    return column ? entry.cells[column] : null;
+  }
+
+  /**
+   * Whether normalized union members are the allowed values as literals ('primary', 1, true), in any order
+   */
+  private static listsAllowedValues(members: string[], allowedValues: AllowedValue[]): boolean {
+    const literals = new Set(allowedValues.map(value => typeof value === 'string' ? `'${value}'` : String(value)));
+    const listed = new Set(members);
+    return literals.size > 0 && listed.size === literals.size && [...listed].every(member => literals.has(member));
+  }
+
+  private static covers(documented: string, actual: string): boolean {
+    const doc = documented.toLowerCase();
+    const source = actual.toLowerCase();
+    const isNamed = /^[a-z_$][\w$.]*(<.*>)?$/i.test(actual) && !['string', 'number', 'boolean'].includes(source);
+
+    if (doc === source || OPAQUE_TYPES.includes(source)) return true;
+    if (doc.endsWith('[]') && source.endsWith('[]')) {
+      return this.typesAgree(documented.slice(0, -2).replace(/^\((.*)\)$/, '$1'), actual.slice(0, -2).replace(/^\((.*)\)$/, '$1'));
+    }
+
+    switch (doc) {
+      case 'string':
+        return /^'.*'$/.test(source) || source.startsWith('`') || isNamed;
+      case 'number':
+        return /^-?\d/.test(source) || isNamed;
+      case 'boolean':
+        return source === 'true' || source === 'false';
+      case 'function':
+        return source.includes('=>') || source === 'function';
+      case 'array':
+        return source.endsWith('[]') || source.startsWith('array<') || source.startsWith('readonly ');
+      case 'object':
+        return source.startsWith('{') || source.startsWith('record<') || isNamed;
+      default:
+        return false;
+    }
+  }
+}
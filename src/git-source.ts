@@ -0,0 +1,45 @@
+/**
+ * Reads the components tree as it was at a git ref, for comparing two versions of the source
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { PackageSource } from './package-source.js';
+
+export class GitSource {
+  /**
+   * Extract the components tree at a ref (branch, tag or commit) into a temporary directory
+   * and return the components path inside it
+   */
+  static checkout(componentsPath: string, ref: string): string {
+    let repoRoot: string;
+    try {
+      repoRoot = execFileSync('git', ['-C', componentsPath, 'rev-parse', '--show-toplevel'], {
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).trim();
+    } catch (error) {
+      throw new Error(`${componentsPath} is not inside a git repository`);
+    }
+
+    const relative = path.relative(repoRoot, path.resolve(componentsPath));
+    const destDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wm-doc-git-'));
+    PackageSource.registerCleanup(destDir);
+
+    console.log(`Reading ${relative || '.'} at ${ref}...`);
+    let tarball: Buffer;
+    try {
+      tarball = execFileSync('git', ['-C', repoRoot, 'archive', '--format=tar', ref, '--', relative || '.'], {
+        maxBuffer: 1024 * 1024 * 1024,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch (error) {
+      throw new Error(`Could not read ${ref}: ${(error as { stderr?: Buffer }).stderr?.toString().trim() || error}`);
+    }
+
+    PackageSource.extractTarball(tarball, destDir);
+    return path.join(destDir, relative);
+  }
+}
@@ -9,10 +9,222 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { DocumentationGenerator } from './doc-generator.js';
 import { LLMDocGenerator } from './llm-doc-generator.js';
-import { DEFAULT_CONFIG, getApiKey } from './config.js';
+import { GeneratorConfig } from './config.js';
+import { ConfigLoader } from './config-loader.js';
+import { PackageSource, PackageSourceInfo } from './package-source.js';
+import { getSourceLayouts, loadSourceLayouts } from './source-layout.js';
+import { CHILD_ACCEPT_SCORE } from './child-discovery.js';
+import { FilterRemoval } from './doc-filter.js';
+import { CacheSummary, DEFAULT_CACHE_FILE } from './doc-cache.js';
+import { ComponentWatcher } from './watcher.js';
+import { ApiDiff, ApiDiffResult } from './api-diff.js';
+import { ComponentChangelog } from './component-changelog.js';
+import { ComponentDoc } from './types.js';
+import { GitSource } from './git-source.js';
+import { CheckResult, DocCheck } from './doc-check.js';
+import { DocVerifier } from './doc-verifier.js';
+import { MarkdownRenderer } from './markdown-renderer.js';
 
 const program = new Command();
 
+/**
+ * Resolve where components are read from: a storybook checkout (--source),
+ * an installed runtime package or .tgz (--package / --source), or a published version (--runtime-version)
+ */
+function resolveSource(options: { source?: string; package?: string; runtimeVersion?: string }, config: GeneratorConfig): {
+  componentsPath: string;
+  packageInfo?: PackageSourceInfo;
+} {
+  let packageInfo: PackageSourceInfo | undefined;
+
+  try {
+    if (options.runtimeVersion) {
+      packageInfo = PackageSource.fromVersion(options.runtimeVersion);
+    } else if (options.package) {
+      packageInfo = PackageSource.resolve(path.resolve(process.cwd(), options.package));
+    } else {
+      const sourcePath = path.resolve(process.cwd(), options.source ?? config.componentsSourcePath);
+      if (fs.existsSync(sourcePath) && PackageSource.isPackageSource(sourcePath)) {
+        packageInfo = PackageSource.resolve(sourcePath);
+      }
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (packageInfo) {
+    console.log(`Using ${packageInfo.packageName}@${packageInfo.version}`);
+    return { componentsPath: packageInfo.componentsPath, packageInfo };
+  }
+
+  return { componentsPath: path.resolve(process.cwd(), options.source ?? config.componentsSourcePath) };
+}
+
+/**
+ * Project configuration: --config, or wm-doc.config.(json|js|ts) found from the working directory
+ */
+async function loadConfig(configPath?: string): Promise<GeneratorConfig> {
+  try {
+    const { config, filePath } = await ConfigLoader.load(configPath);
+    if (filePath) {
+      console.log(`Using config ${filePath}`);
+    }
+    return config;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register custom layouts from config and --layout-module before any component is discovered
+ */
+async function registerLayouts(config: GeneratorConfig, modules: string[] = [], layoutName?: string): Promise<void> {
+  try {
+    await loadSourceLayouts([...config.sourceLayouts, ...modules]);
+
+    const available = getSourceLayouts().map(layout => layout.name);
+    if (layoutName && !available.includes(layoutName)) {
+      throw new Error(`Unknown source layout '${layoutName}'. Available: ${available.join(', ')}`);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * --explain: which rule removed which component or item, grouped by component
+ */
+function printFilterReport(removals: FilterRemoval[]): void {
+  console.log(`\nFilter report (${removals.length} items removed):`);
+
+  const byComponent: Record<string, FilterRemoval[]> = {};
+  removals.forEach(r => {
+    const key = `${r.category}/${r.component}`;
+    if (!byComponent[key]) {
+      byComponent[key] = [];
+    }
+    byComponent[key].push(r);
+  });
+
+  Object.entries(byComponent).forEach(([component, items]) => {
+    console.log(`  ${component}`);
+    items.forEach(r => {
+      const item = r.kind === 'component' ? 'component' : `${r.kind} ${r.name}`;
+      console.log(`    - ${item.padEnd(36)} ${r.rule}`);
+    });
+  });
+}
+
+/**
+ * LLM generator for --with-docs; exits when the provider can't be used (unknown, or its API key is missing)
+ */
+function createLLMGenerator(
+  config: GeneratorConfig,
+  options: { existingDocs?: boolean; storybookPath?: string } = {}
+): LLMDocGenerator {
+  const provider = config.llm.provider;
+
+  let llmGenerator: LLMDocGenerator;
+  try {
+    llmGenerator = new LLMDocGenerator({
+      ...config.llm,
+      existingDocs: config.llm.existingDocs && options.existingDocs !== false,
+      storybookPath: options.storybookPath ?? config.llm.storybookPath,
+    });
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  }
+
+  console.log(`✓ LLM documentation generation enabled`);
+  console.log(`  Provider: ${provider}`);
+  console.log(`  Model: ${llmGenerator.getModel()}`);
+  if (provider === 'ollama') {
+    console.log(`  Server: ${config.llm.ollama.baseUrl}`);
+  } else if (provider === 'replay') {
+    console.log(`  Fixtures: ${config.llm.replay.fixturesPath} (${config.llm.replay.mode})`);
+  }
+  console.log('');
+  return llmGenerator;
+}
+
+/**
+ * Template renderer for --with-templates; exits when a template doesn't parse
+ */
+function createMarkdownRenderer(config: GeneratorConfig): MarkdownRenderer {
+  try {
+    const renderer = new MarkdownRenderer(config.templates.path);
+    console.log(`✓ Markdown templates: ${config.templates.path ?? 'built-in'}`);
+    return renderer;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * How many components were regenerated versus taken from the cache, and why
+ */
+function printCacheSummary(summary: CacheSummary, componentsPath: string): void {
+  console.log(`  ${summary.regenerated} regenerated, ${summary.cached} cached`);
+  summary.changed.forEach(({ component, file }) => {
+    console.log(`  - ${component}: ${path.relative(componentsPath, file) || file} changed`);
+  });
+}
+
+/**
+ * Machine-readable formats: progress logs go to stderr, so stdout carries only the report (e.g. for jq)
+ */
+function logToStderr(): void {
+  console.log = console.error;
+}
+
+/**
+ * Write a machine-readable report to stdout, whether or not logs were sent to stderr
+ */
+function printReport(report: string): void {
+  process.stdout.write(`${report}\n`);
+}
+
+/**
+ * Diff two snapshots (output directories or all-components.json), or with --git two refs of the source
+ */
+async function loadApiDiff(
+  before: string,
+  after: string,
+  options: { git?: boolean; source?: string; config?: string }
+): Promise<{ result: ApiDiffResult; afterDocs: ComponentDoc[] }> {
+  try {
+    let beforeDocs: ComponentDoc[];
+    let afterDocs: ComponentDoc[];
+
+    if (options.git) {
+      const config = await loadConfig(options.config);
+      const componentsPath = path.resolve(process.cwd(), options.source ?? config.componentsSourcePath);
+      await registerLayouts(config, [], config.sourceLayout);
+
+      // Both refs are generated with the current configuration, so only the source differs
+      const snapshot = (ref: string) =>
+        new DocumentationGenerator(GitSource.checkout(componentsPath, ref), config).generateAllDocs();
+      beforeDocs = snapshot(before);
+      afterDocs = snapshot(after);
+    } else {
+      beforeDocs = ApiDiff.loadSnapshot(path.resolve(before));
+      afterDocs = ApiDiff.loadSnapshot(path.resolve(after));
+    }
+
+    return { result: ApiDiff.compare(beforeDocs, afterDocs), afterDocs };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+const collect = (value: string, previous: string[]) => [...previous, value];
+
 program
   .name('wm-doc-generator')
   .description('Generate documentation for WaveMaker React Native components')
@@ -24,12 +236,24 @@ program
   .option('-a, --all', 'Generate docs for all components')
   .option('-c, --component <name>', 'Generate docs for a specific component')
   .option('-o, --output <path>', 'Output directory', './output')
-  .option('-s, --source <path>', 'Path to components source directory', DEFAULT_CONFIG.componentsSourcePath)
+  .option('-s, --source <path>', 'Path to components source directory (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
   .option('--single-file', 'Generate a single JSON file with all components')
-  .option('--with-docs', 'Generate markdown documentation using LLM (requires ANTHROPIC_API_KEY)')
+  .option('--with-docs', 'Generate markdown documentation using LLM (requires the provider API key, or a local server with AI_PROVIDER=ollama)')
+  .option('--no-existing-docs', 'Leave the existing WaveMaker documentation out of the LLM prompt (offline, reproducible runs)')
+  .option('--with-templates', 'Render markdown from templates without an LLM; with --with-docs, the LLM enriches the rendered skeleton')
+  .option('--type-checker', 'Resolve props with the TypeScript type checker (needs a tsconfig.json)')
+  .option('--tsconfig <path>', 'Path to tsconfig.json used by --type-checker')
+  .option('-p, --package <path>', 'Read components from an installed @wavemaker/app-rn-runtime directory or a .tgz')
+  .option('--runtime-version <version>', 'Fetch and document a published @wavemaker/app-rn-runtime version')
+  .option('--layout <name>', 'Source layout to use (tsx, legacy-map or a custom layout); detected when omitted')
+  .option('--layout-module <path>', 'Register a custom source layout module (repeatable)', collect, [])
+  .option('--explain', 'Report which config rule removed which component, prop, method, style class or event')
+  .option('--no-cache', 'Regenerate every component instead of reusing unchanged ones from the cache')
   .action(async (options) => {
     console.log(`Library path: ${options}`);
-    const componentsPath = path.resolve(process.cwd(), options.source);
+    const config = await loadConfig(options.config);
+    const { componentsPath, packageInfo } = resolveSource(options, config);
     const outputPath = path.resolve(process.cwd(), options.output);
 
     console.log('WaveMaker Component Documentation Generator');
@@ -45,26 +269,31 @@ program
       process.exit(1);
     }
 
-    const generator = new DocumentationGenerator(componentsPath);
+    await registerLayouts(config, options.layoutModule, options.layout || config.sourceLayout);
+
+    const generator = new DocumentationGenerator(componentsPath, {
+      ...config,
+      typeChecker: {
+        enabled: options.typeChecker || !!options.tsconfig || config.typeChecker.enabled,
+        tsconfigPath: options.tsconfig || config.typeChecker.tsconfigPath,
+      },
+      runtimeVersion: packageInfo?.version,
+      sourceLayout: options.layout || config.sourceLayout,
+    });
+
+    const cache = options.cache && config.cache.enabled
+      ? generator.useCache(config.cache.path ?? path.join(outputPath, DEFAULT_CACHE_FILE))
+      : null;
 
     // Initialize LLM generator if --with-docs flag is present
-    let llmGenerator: LLMDocGenerator | null = null;
-    if (options.withDocs) {
-      const provider = DEFAULT_CONFIG.llm.provider;
-      const apiKey = getApiKey(provider);
-
-      if (!apiKey) {
-        console.error(`\nError: API key not set for provider '${provider}'`);
-        console.error(`Please set ${provider === 'claude' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY'} in .env file`);
-        console.error('Or copy .env.example to .env and add your API key\n');
-        process.exit(1);
-      }
+    const llmGenerator = options.withDocs ? createLLMGenerator(config, options) : null;
 
-      llmGenerator = new LLMDocGenerator(DEFAULT_CONFIG.llm, apiKey);
-      console.log(`✓ LLM documentation generation enabled`);
-      console.log(`  Provider: ${provider}`);
-      console.log(`  Model: ${DEFAULT_CONFIG.llm.model}\n`);
+    // Templates render the markdown on their own, or give the LLM its skeleton
+    const renderer = options.withTemplates ? createMarkdownRenderer(config) : null;
+    if (renderer && llmGenerator) {
+      llmGenerator.useTemplates(renderer);
     }
+    const templateRenderer = llmGenerator ? null : renderer;
 
     if (options.all) {
       console.log('Generating documentation for all components...\n');
@@ -80,8 +309,25 @@ program
         }
       }
 
+      generator.saveTokenCatalog(docs, outputPath);
+
       console.log(`\n✓ Generated JSON for ${docs.length} components`);
 
+      if (cache) {
+        cache.save();
+        printCacheSummary(cache.getSummary(), componentsPath);
+      }
+
+      if (options.explain) {
+        printFilterReport(generator.getFilterReport());
+      }
+
+      if (templateRenderer) {
+        const storybookPath = path.resolve(process.cwd(), config.llm.storybookPath);
+        docs.forEach(doc => templateRenderer.renderAndSave(doc, storybookPath));
+        console.log(`\n✓ Rendered markdown from templates for ${docs.length} components in ${storybookPath}`);
+      }
+
       // Generate LLM docs if requested
       if (llmGenerator) {
         console.log(`\nGenerating markdown documentation with LLM...`);
@@ -89,7 +335,7 @@ program
         let errorCount = 0;
 
         // Process in batches to avoid rate limits
-        const batchSize = DEFAULT_CONFIG.llm.batchSize;
+        const batchSize = config.llm.batchSize;
         const totalBatches = Math.ceil(docs.length / batchSize);
 
         for (let i = 0; i < docs.length; i += batchSize) {
@@ -144,6 +390,17 @@ program
       if (doc) {
         generator.saveComponentDoc(doc, outputPath);
         console.log('\n✓ JSON documentation generated successfully!');
+        cache?.save();
+
+        if (options.explain) {
+          printFilterReport(generator.getFilterReport().filter(r => r.kind !== 'component'));
+        }
+
+        if (templateRenderer) {
+          const written = templateRenderer.renderAndSave(doc, path.resolve(process.cwd(), config.llm.storybookPath));
+          console.log('\n✓ Markdown rendered from templates:');
+          written.forEach(file => console.log(`  - ${path.relative(process.cwd(), file)}`));
+        }
 
         // Generate LLM docs if requested
         if (llmGenerator) {
@@ -169,16 +426,28 @@ program
 program
   .command('list')
   .description('List all available components')
-  .option('-s, --source <path>', 'Path to components source directory', DEFAULT_CONFIG.componentsSourcePath)
-  .action((options) => {
-    const componentsPath = path.resolve(process.cwd(), options.source);
+  .option('-s, --source <path>', 'Path to components source directory (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
+  .option('-p, --package <path>', 'Read components from an installed @wavemaker/app-rn-runtime directory or a .tgz')
+  .option('--runtime-version <version>', 'List components of a published @wavemaker/app-rn-runtime version')
+  .option('--layout <name>', 'Source layout to use (tsx, legacy-map or a custom layout); detected when omitted')
+  .option('--layout-module <path>', 'Register a custom source layout module (repeatable)', collect, [])
+  .option('--explain', 'Report which config rule removed which component')
+  .action(async (options) => {
+    const config = await loadConfig(options.config);
+    const { componentsPath } = resolveSource(options, config);
 
     if (!fs.existsSync(componentsPath)) {
       console.error(`Error: Components source path not found: ${componentsPath}`);
       process.exit(1);
     }
 
-    const generator = new DocumentationGenerator(componentsPath);
+    await registerLayouts(config, options.layoutModule, options.layout || config.sourceLayout);
+
+    const generator = new DocumentationGenerator(componentsPath, {
+      ...config,
+      sourceLayout: options.layout || config.sourceLayout,
+    });
     const components = generator.findAllComponents();
 
     console.log(`\nFound ${components.length} components:\n`);
@@ -200,6 +469,375 @@ program
       });
       console.log('');
     });
+
+    if (options.explain) {
+      printFilterReport(generator.getFilterReport());
+    }
+  });
+
+program
+  .command('children')
+  .description('Propose parent-child component mappings detected from source')
+  .option('-s, --source <path>', 'Path to components source directory (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
+  .option('-p, --package <path>', 'Read components from an installed @wavemaker/app-rn-runtime directory or a .tgz')
+  .option('--runtime-version <version>', 'Use a published @wavemaker/app-rn-runtime version')
+  .option('--layout <name>', 'Source layout to use (tsx, legacy-map or a custom layout); detected when omitted')
+  .option('--layout-module <path>', 'Register a custom source layout module (repeatable)', collect, [])
+  .option('--min-score <score>', 'Only list proposals scoring at least this much', '1')
+  .option('--json', 'Print the proposals as JSON')
+  .action(async (options) => {
+    const config = await loadConfig(options.config);
+    const { componentsPath } = resolveSource(options, config);
+
+    if (!fs.existsSync(componentsPath)) {
+      console.error(`Error: Components source path not found: ${componentsPath}`);
+      process.exit(1);
+    }
+
+    await registerLayouts(config, options.layoutModule, options.layout || config.sourceLayout);
+
+    const generator = new DocumentationGenerator(componentsPath, {
+      ...config,
+      sourceLayout: options.layout || config.sourceLayout,
+    });
+    const minScore = parseInt(options.minScore, 10) || 1;
+    const proposals = generator.discoverChildren().filter(p => p.score >= minScore);
+
+    if (options.json) {
+      console.log(JSON.stringify(proposals, null, 2));
+      return;
+    }
+
+    console.log(`\nFound ${proposals.length} parent-child proposals (applied automatically from score ${CHILD_ACCEPT_SCORE}):\n`);
+
+    const byParent: Record<string, typeof proposals> = {};
+    proposals.forEach(p => {
+      if (!byParent[p.parent]) {
+        byParent[p.parent] = [];
+      }
+      byParent[p.parent].push(p);
+    });
+
+    Object.entries(byParent).forEach(([parent, children]) => {
+      const overrides = config.childComponents[parent] ?? {};
+      console.log(parent);
+      children.forEach(p => {
+        const overridden = Object.entries(overrides).find(([name, childPath]) =>
+          name === p.child || (childPath !== false && path.resolve(p.parentPath, childPath) === p.childPath));
+        const mark = overridden ? (overridden[1] === false ? '✗' : '✓') : p.score >= CHILD_ACCEPT_SCORE ? '✓' : '?';
+        console.log(`  ${mark} ${p.child} (${p.relativePath}) score ${p.score}: ${p.signals.map(s => s.type).join(', ')}${overridden ? ' [childComponents]' : ''}`);
+      });
+      console.log('');
+    });
+
+    // Weak proposals are only used once confirmed in childComponents
+    const suggested: Record<string, Record<string, string>> = {};
+    proposals
+      .filter(p => p.score < CHILD_ACCEPT_SCORE && !(p.child in (config.childComponents[p.parent] ?? {})))
+      .forEach(p => {
+        suggested[p.parent] = { ...suggested[p.parent], [p.child]: p.relativePath };
+      });
+
+    if (Object.keys(suggested).length > 0) {
+      console.log('Proposals below the threshold can be confirmed in childComponents:');
+      console.log(JSON.stringify(suggested, null, 2));
+    }
+  });
+
+program
+  .command('watch')
+  .description('Regenerate the JSON of affected components whenever the components source changes')
+  .option('-o, --output <path>', 'Output directory', './output')
+  .option('-s, --source <path>', 'Path to components source directory (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
+  .option('--with-docs', 'Also regenerate markdown with the LLM for affected components')
+  .option('--no-existing-docs', 'Leave the existing WaveMaker documentation out of the LLM prompt')
+  .option('--type-checker', 'Resolve props with the TypeScript type checker (needs a tsconfig.json)')
+  .option('--tsconfig <path>', 'Path to tsconfig.json used by --type-checker')
+  .option('--layout <name>', 'Source layout to use (tsx, legacy-map or a custom layout); detected when omitted')
+  .option('--layout-module <path>', 'Register a custom source layout module (repeatable)', collect, [])
+  .option('--debounce <ms>', 'Wait this long after the last change before regenerating', '500')
+  .action(async (options) => {
+    const config = await loadConfig(options.config);
+    const componentsPath = path.resolve(process.cwd(), options.source ?? config.componentsSourcePath);
+    const outputPath = path.resolve(process.cwd(), options.output);
+
+    if (!fs.existsSync(componentsPath)) {
+      console.error(`Error: Components source path not found: ${componentsPath}`);
+      process.exit(1);
+    }
+
+    // Affected components are found through the dependencies the cache records
+    if (!config.cache.enabled) {
+      console.error('Error: watch needs the cache to know what each component was generated from; enable cache.enabled (or unset DOC_CACHE=false)');
+      process.exit(1);
+    }
+
+    await registerLayouts(config, options.layoutModule, options.layout || config.sourceLayout);
+
+    const watcher = new ComponentWatcher({
+      componentsPath,
+      outputPath,
+      cacheFile: config.cache.path ?? path.join(outputPath, DEFAULT_CACHE_FILE),
+      debounceMs: parseInt(options.debounce, 10) || 500,
+      createGenerator: () => new DocumentationGenerator(componentsPath, {
+        ...config,
+        typeChecker: {
+          enabled: options.typeChecker || !!options.tsconfig || config.typeChecker.enabled,
+          tsconfigPath: options.tsconfig || config.typeChecker.tsconfigPath,
+        },
+        sourceLayout: options.layout || config.sourceLayout,
+      }),
+      llmGenerator: options.withDocs ? createLLMGenerator(config, options) : null,
+    });
+
+    process.on('SIGINT', () => {
+      watcher.stop();
+      process.exit(0);
+    });
+
+    await watcher.start();
+  });
+
+program
+  .command('diff')
+  .description('Compare two API snapshots and classify each change as breaking or non-breaking')
+  .argument('<before>', 'Output directory or all-components.json (a git ref with --git)')
+  .argument('<after>', 'Output directory or all-components.json (a git ref with --git)')
+  .option('--git', 'Treat <before> and <after> as git refs of the components source and generate both')
+  .option('-s, --source <path>', 'Path to components source directory, used with --git (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
+  .option('-f, --format <format>', 'Output format: text, json or markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--fail-on-breaking', 'Exit with code 1 when a breaking change is found')
+  .action(async (before, after, options) => {
+    const formats: Record<string, (result: ApiDiffResult) => string> = {
+      text: result => ApiDiff.formatText(result),
+      json: result => ApiDiff.formatJson(result),
+      markdown: result => ApiDiff.formatMarkdown(result),
+    };
+    if (!formats[options.format]) {
+      console.error(`Error: Unknown format '${options.format}'. Use text, json or markdown`);
+      process.exit(1);
+    }
+    // A json or markdown report on stdout is usually piped or redirected
+    if (!options.output && options.format !== 'text') {
+      logToStderr();
+    }
+
+    const { result } = await loadApiDiff(before, after, options);
+
+    const report = formats[options.format](result);
+    if (options.output) {
+      fs.writeFileSync(path.resolve(options.output), report, 'utf-8');
+      console.log(`Report saved to ${options.output} (${result.breaking} breaking, ${result.nonBreaking} non-breaking)`);
+    } else if (options.format !== 'text') {
+      printReport(report);
+    } else {
+      console.log(report);
+    }
+
+    if (options.failOnBreaking && result.breaking > 0) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command('changelog')
+  .description('Record the API changes of a release in each component\'s history and render its changelog.md')
+  .argument('<before>', 'Snapshot of the previous release: output directory or all-components.json (a git ref with --git)')
+  .argument('<after>', 'Snapshot of the new release: output directory or all-components.json (a git ref with --git)')
+  .option('-r, --release <version>', 'Release to record (default: runtimeVersion of <after>, or the <after> ref with --git)')
+  .option('--date <date>', 'Release date (YYYY-MM-DD, default: today)')
+  .option('--git', 'Treat <before> and <after> as git refs of the components source and generate both')
+  .option('-s, --source <path>', 'Path to components source directory, used with --git (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
+  .option('--storybook <path>', 'Storybook checkout holding the component docs folders (default: llm.storybookPath)')
+  .action(async (before, after, options) => {
+    const config = await loadConfig(options.config);
+    const { result, afterDocs } = await loadApiDiff(before, after, options);
+
+    const version = options.release ?? afterDocs.find(doc => doc.runtimeVersion)?.runtimeVersion ?? (options.git ? after : undefined);
+    if (!version) {
+      console.error('Error: Could not tell which release this is, pass --release <version>');
+      process.exit(1);
+    }
+
+    const storybookPath = path.resolve(process.cwd(), options.storybook ?? config.llm.storybookPath);
+    const written = ComponentChangelog.record(result, version, storybookPath, options.date);
+
+    console.log(`\n✓ Recorded ${version} for ${written.length} components (${result.breaking} breaking, ${result.nonBreaking} non-breaking changes)`);
+    written.forEach(file => console.log(`  - ${path.relative(process.cwd(), file)}`));
+  });
+
+program
+  .command('check')
+  .description('Fail when the committed JSON or the Storybook markdown no longer matches the API in source (for CI)')
+  .option('-o, --output <path>', 'Committed output directory or all-components.json to compare with', './output')
+  .option('-s, --source <path>', 'Path to components source directory (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
+  .option('-p, --package <path>', 'Read components from an installed @wavemaker/app-rn-runtime directory or a .tgz')
+  .option('--runtime-version <version>', 'Check against a published @wavemaker/app-rn-runtime version')
+  .option('--storybook <path>', 'Storybook checkout holding the component docs folders (default: llm.storybookPath)')
+  .option('--no-json', 'Skip the comparison with the committed JSON')
+  .option('--no-markdown', 'Skip the comparison with props.md, events.md and methods.md')
+  .option('--type-checker', 'Resolve props with the TypeScript type checker (needs a tsconfig.json)')
+  .option('--tsconfig <path>', 'Path to tsconfig.json used by --type-checker')
+  .option('--layout <name>', 'Source layout to use (tsx, legacy-map or a custom layout); detected when omitted')
+  .option('--layout-module <path>', 'Register a custom source layout module (repeatable)', collect, [])
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .action(async (options) => {
+    if (options.format !== 'text' && options.format !== 'json') {
+      console.error(`Error: Unknown format '${options.format}'. Use text or json`);
+      process.exit(1);
+    }
+    if (options.format === 'json') {
+      logToStderr();
+    }
+
+    const config = await loadConfig(options.config);
+    const { componentsPath, packageInfo } = resolveSource(options, config);
+
+    if (!fs.existsSync(componentsPath)) {
+      console.error(`Error: Components source path not found: ${componentsPath}`);
+      process.exit(1);
+    }
+
+    await registerLayouts(config, options.layoutModule, options.layout || config.sourceLayout);
+
+    const generator = new DocumentationGenerator(componentsPath, {
+      ...config,
+      typeChecker: {
+        enabled: options.typeChecker || !!options.tsconfig || config.typeChecker.enabled,
+        tsconfigPath: options.tsconfig || config.typeChecker.tsconfigPath,
+      },
+      runtimeVersion: packageInfo?.version,
+      sourceLayout: options.layout || config.sourceLayout,
+    });
+
+    // Generated in memory only, so the check never touches the working tree
+    const docs = generator.generateAllDocs();
+
+    const result: CheckResult = { drift: null, issues: null, checked: [] };
+    try {
+      if (options.json) {
+        result.drift = DocCheck.checkOutput(docs, path.resolve(process.cwd(), options.output));
+      }
+      if (options.markdown) {
+        const storybookPath = path.resolve(process.cwd(), options.storybook ?? config.llm.storybookPath);
+        result.issues = DocCheck.checkMarkdown(docs, storybookPath, generator.getFilterReport());
+        result.checked = docs.map(doc => doc.componentName);
+      }
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
+    if (options.format === 'json') {
+      printReport(DocCheck.formatJson(result));
+    } else {
+      console.log(`\n${DocCheck.formatText(result)}`);
+    }
+
+    if (DocCheck.hasProblems(result)) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command('verify')
+  .description('Fact-check the generated markdown against the component API: hallucinated, missing and mistyped entries')
+  .option('-c, --component <name>', 'Verify a single component')
+  .option('-s, --source <path>', 'Path to components source directory (default: componentsSourcePath from the config)')
+  .option('--config <path>', 'Path to wm-doc.config.(json|js|ts) (searched from the working directory by default)')
+  .option('-p, --package <path>', 'Read components from an installed @wavemaker/app-rn-runtime directory or a .tgz')
+  .option('--runtime-version <version>', 'Verify against a published @wavemaker/app-rn-runtime version')
+  .option('--storybook <path>', 'Storybook checkout holding the component docs folders (default: llm.storybookPath)')
+  .option('--regenerate', 'Regenerate the offending sections with the LLM, feeding the problems back, then verify again')
+  .option('--no-existing-docs', 'Leave the existing WaveMaker documentation out of the LLM prompt when regenerating')
+  .option('--type-checker', 'Resolve props with the TypeScript type checker (needs a tsconfig.json)')
+  .option('--tsconfig <path>', 'Path to tsconfig.json used by --type-checker')
+  .option('--layout <name>', 'Source layout to use (tsx, legacy-map or a custom layout); detected when omitted')
+  .option('--layout-module <path>', 'Register a custom source layout module (repeatable)', collect, [])
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .action(async (options) => {
+    if (options.format !== 'text' && options.format !== 'json') {
+      console.error(`Error: Unknown format '${options.format}'. Use text or json`);
+      process.exit(1);
+    }
+    if (options.format === 'json') {
+      logToStderr();
+    }
+
+    const config = await loadConfig(options.config);
+    const { componentsPath, packageInfo } = resolveSource(options, config);
+
+    if (!fs.existsSync(componentsPath)) {
+      console.error(`Error: Components source path not found: ${componentsPath}`);
+      process.exit(1);
+    }
+
+    await registerLayouts(config, options.layoutModule, options.layout || config.sourceLayout);
+
+    const generator = new DocumentationGenerator(componentsPath, {
+      ...config,
+      typeChecker: {
+        enabled: options.typeChecker || !!options.tsconfig || config.typeChecker.enabled,
+        tsconfigPath: options.tsconfig || config.typeChecker.tsconfigPath,
+      },
+      runtimeVersion: packageInfo?.version,
+      sourceLayout: options.layout || config.sourceLayout,
+    });
+
+    let docs: ComponentDoc[];
+    if (options.component) {
+      const component = generator.findAllComponents().find(c =>
+        path.basename(c.path).toLowerCase() === options.component.toLowerCase()
+      );
+      const doc = component && generator.generateComponentDoc(component.path, component.category);
+      if (!doc) {
+        console.error(`Error: Component '${options.component}' not found`);
+        process.exit(1);
+      }
+      docs = [doc];
+    } else {
+      docs = generator.generateAllDocs();
+    }
+
+    const storybookPath = path.resolve(process.cwd(), options.storybook ?? config.llm.storybookPath);
+    const removals = generator.getFilterReport();
+    let reports = docs.map(doc => DocVerifier.verifyComponent(doc, storybookPath, removals));
+
+    if (options.regenerate) {
+      const llmGenerator = createLLMGenerator(config, { existingDocs: options.existingDocs, storybookPath });
+
+      for (const report of reports.filter(r => r.issues.length > 0)) {
+        const doc = docs[reports.indexOf(report)];
+        const sections = [...new Set(report.issues.map(issue => issue.section))];
+        console.log(`\nRegenerating ${sections.join(', ')} of ${report.component} (${report.issues.length} problems)...`);
+
+        try {
+          await llmGenerator.regenerateSections(doc, sections, report.issues.map(issue => DocVerifier.describe(issue)));
+        } catch (error) {
+          console.error(`✗ Failed to regenerate ${report.component}:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      // Report what is still wrong after regenerating
+      reports = reports.map((report, index) =>
+        report.issues.length > 0 ? DocVerifier.verifyComponent(docs[index], storybookPath, removals) : report);
+    }
+
+    if (options.format === 'json') {
+      printReport(DocVerifier.formatJson(reports));
+    } else {
+      console.log(`\n${DocVerifier.formatText(reports)}`);
+    }
+
+    if (reports.some(report => report.issues.length > 0)) {
+      process.exit(1);
+    }
   });
 
 // Default command
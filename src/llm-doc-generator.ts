@@ -3,146 +3,97 @@
  * Generates markdown documentation from ComponentDoc JSON using AI
  */
 
-import Anthropic from "@anthropic-ai/sdk";
-import OpenAI from "openai";
 import { ComponentDoc } from "./types.js";
 import { GeneratorConfig } from "./config.js";
 import { fetchDocContent } from "./docs-fetcher.js";
+import { getStorybookDocsDir } from "./storybook-docs.js";
+import { createLLMProvider, LLMProvider } from "./llm-provider.js";
+import { DOC_SECTIONS, GeneratedDocs, parseLLMJson, validateDocs } from "./llm-output.js";
+import { MarkdownRenderer } from "./markdown-renderer.js";
 import * as fs from "fs";
 import * as path from "path";
 
+const SYSTEM_PROMPT = "You are a technical documentation expert. Respond ONLY with valid JSON.";
+
 export class LLMDocGenerator {
-  private anthropic: Anthropic | null = null;
-  private openai: OpenAI | null = null;
+  private provider: LLMProvider;
   private config: GeneratorConfig["llm"];
+  private renderer: MarkdownRenderer | null = null;
 
-  constructor(config: GeneratorConfig["llm"], apiKey?: string) {
+  /**
+   * @param provider - Provider to use instead of the one named by config.provider
+   */
+  constructor(config: GeneratorConfig["llm"], provider?: LLMProvider) {
     this.config = config;
-
-    if (config.provider === "claude" && apiKey) {
-      this.anthropic = new Anthropic({ apiKey });
-    } else if (config.provider === "openai" && apiKey) {
-      this.openai = new OpenAI({ apiKey });
-    }
+    this.provider = provider ?? createLLMProvider(config);
   }
 
-  async generateAllDocs(componentDoc: ComponentDoc): Promise<Record<string, string>> {
+  /**
+   * Ask the model for all five sections. An answer that doesn't parse (after repair) or fails validation
+   * is retried up to llm.maxRetries times with the problems fed back; then this throws.
+   * @param feedback - Problems of the current docs to fix, sent with the first request
+   */
+  async generateAllDocs(componentDoc: ComponentDoc, feedback: string[] = []): Promise<GeneratedDocs> {
     // Fetch existing documentation from WaveMaker docs repo
-    const existingDocs = await fetchDocContent(componentDoc.componentName);
+    const existingDocs = this.config.existingDocs ? await fetchDocContent(componentDoc.componentName) : null;
     console.log("Existing docs:", existingDocs);
     const prompt = this.buildPrompt(componentDoc, existingDocs);
     console.log("Prompt:", prompt);
-    let jsonResponse: string = "";
-
-    switch (this.config.provider) {
-      case "claude":
-        jsonResponse = await this.generateWithClaude(componentDoc, prompt);
-        break;
-      case "openai":
-        jsonResponse = await this.generateWithOpenAI(componentDoc, prompt);
-        break;
-      case "ollama":
-        throw new Error("Ollama provider not yet implemented");
-      default:
-        throw new Error(`Unknown provider: ${this.config.provider}`);
-    }
 
-    try {
-      // Clean up markdown formatting - only strip surrounding code blocks
-      let cleanJson = jsonResponse.trim();
+    const attempts = this.config.maxRetries + 1;
+    let errors: string[] = feedback;
 
-      // Remove starting ```json or ```
-      if (cleanJson.startsWith('```')) {
-        cleanJson = cleanJson.replace(/^```(json)?\n?/, '');
-      }
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      console.log(
+        `Generating complete docs for ${componentDoc.componentName} with ${this.provider.name} (${this.provider.model})` +
+        `${attempt > 1 ? `, attempt ${attempt}/${attempts}` : ""}...`
+      );
+
+      const jsonResponse = await this.provider.complete({
+        componentName: componentDoc.componentName,
+        system: SYSTEM_PROMPT,
+        prompt: errors.length > 0 ? this.buildRetryPrompt(prompt, errors) : prompt,
+      });
 
-      // Remove ending ```
-      if (cleanJson.endsWith('```')) {
-        cleanJson = cleanJson.replace(/\n?```$/, '');
+      const { value, error } = parseLLMJson(jsonResponse);
+      errors = error ? [error] : validateDocs(value, componentDoc);
+      if (errors.length === 0) {
+        return value as GeneratedDocs;
       }
 
-      return JSON.parse(cleanJson);
-    } catch (e) {
-      console.error("Failed to parse LLM JSON response:", e);
-      console.error("Raw response:", jsonResponse);
-      // Return empty objects or fallback to avoid crash, but logging error is crucial
-      return {
-        overview: "Error generating content",
-        props: "Error generating content",
-        events: "Error generating content",
-        methods: "Error generating content",
-        styling: "Error generating content"
-      };
+      console.warn(`⚠ Invalid response for ${componentDoc.componentName}:\n${errors.map(e => `  - ${e}`).join("\n")}`);
     }
+
+    throw new Error(
+      `No valid documentation for ${componentDoc.componentName} after ${attempts} attempts; existing markdown left unchanged:\n` +
+      errors.map(e => `  - ${e}`).join("\n")
+    );
   }
 
   /**
-   * Generate documentation using Claude
+   * The original prompt with the problems of the previous answer
    */
-  private async generateWithClaude(
-    componentDoc: ComponentDoc,
-    prompt: string
-  ): Promise<string> {
-    if (!this.anthropic) {
-      throw new Error(
-        "Claude API not initialized. Please provide ANTHROPIC_API_KEY"
-      );
-    }
+  private buildRetryPrompt(prompt: string, errors: string[]): string {
+    return `${prompt}
 
-    console.log(
-      `Generating complete docs for ${componentDoc.componentName} with Claude...`
-    );
+**The previous documentation was rejected**:
+${errors.map(e => `- ${e}`).join("\n")}
 
-    const message = await this.anthropic.messages.create({
-      model: this.config.model || "claude-3-5-sonnet-20240620",
-      max_tokens: 4000,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-    });
-
-    const content = message.content[0];
-    return content.type === "text" ? content.text : "";
+Return the complete JSON object again with all 5 sections, fixing these problems.`;
   }
 
   /**
-   * Generate documentation using OpenAI
+   * Send the template-rendered markdown with each prompt as the factual skeleton the model only enriches
    */
-  private async generateWithOpenAI(
-    componentDoc: ComponentDoc,
-    prompt: string
-  ): Promise<string> {
-    if (!this.openai) {
-      throw new Error(
-        "OpenAI API not initialized. Please provide OPENAI_API_KEY"
-      );
-    }
-
-    console.log(
-      `Generating complete docs for ${componentDoc.componentName} with OpenAI...`
-    );
+  useTemplates(renderer: MarkdownRenderer): void {
+    this.renderer = renderer;
+  }
 
-    const completion = await this.openai.chat.completions.create({
-      model: this.config.model || "gpt-4-turbo-preview",
-      messages: [
-        {
-          role: "system",
-          content: "You are a technical documentation expert. Respond ONLY with valid JSON.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 4000,
-      temperature: 0.3,
-    });
-
-    return completion.choices[0]?.message?.content || "";
+  /**
+   * Model the provider sends requests to
+   */
+  getModel(): string {
+    return this.provider.model;
   }
 
   /**
@@ -158,8 +109,10 @@ export class LLMDocGenerator {
       props: c.props.map(p => ({
         name: p.name,
         type: p.type,
+        allowed: p.allowedValues,
         default: p.defaultValue,
-        desc: "To be filled"
+        desc: p.description || "To be filled",
+        deprecated: p.deprecated ? (p.deprecationMessage || true) : undefined
       })),
       events: c.events,
       styles: c.styles
@@ -171,7 +124,16 @@ export class LLMDocGenerator {
 - Category: ${doc.category}
 - Base Class: ${doc.baseClass}
 - Child Components: ${childNames}
-- Props: ${JSON.stringify(doc.props.slice(0, 50).map(p => ({ name: p.name, type: p.type, default: p.defaultValue })))}
+- Props: ${JSON.stringify(doc.props.slice(0, 50).map(p => ({
+      name: p.name,
+      type: p.type,
+      allowed: p.allowedValues,
+      default: p.defaultValue,
+      desc: p.description,
+      deprecated: p.deprecated ? (p.deprecationMessage || true) : undefined,
+      since: p.since,
+      examples: p.examples
+    })))}
 - Events: ${JSON.stringify(doc.events)}
 - Methods: ${JSON.stringify(doc.methods)}
 - Styles: ${JSON.stringify(doc.styles)}
@@ -182,6 +144,11 @@ ${existingDocs ? `**Existing Documentation** (from WaveMaker docs - combined web
 ${existingDocs}
 ---
 ` : ''}
+${this.renderer ? this.buildSkeletonSection(doc) : ''}
+**Author Documentation**:
+- "desc", "deprecated", "since" and "examples" fields in the component data come from JSDoc written by the component authors.
+- Treat them as ground truth: keep their meaning, mark deprecated props/methods/events as deprecated, and prefer the authors' examples.
+- "allowed" is the complete set of values a prop accepts; list exactly these values, do not invent others.
 
 **Instructions**:
 Generate a SINGLE JSON object containing Markdown content for 5 specific sections.
@@ -250,35 +217,24 @@ Page.Widgets.myAccordion.defaultpaneindex= 2;
   }
 
   /**
-   * Get target directory for component docs
+   * Prompt section with the template-rendered markdown, whose facts the answer must keep
    */
-  private getTargetDir(componentDoc: ComponentDoc): string {
-    const folderName = this.toWmPascalCase(componentDoc.componentName);
-
-    // Manual overrides for specific components
-    let storybookComponentFolder = folderName;
-    if (componentDoc.componentName === 'dialog') {
-      storybookComponentFolder = 'WmDesignDialog';
-    } else if (componentDoc.componentName === 'layoutgrid') {
-      storybookComponentFolder = 'WmGridLayout';
-    } else if (componentDoc.componentName === 'selectlocale') {
-      storybookComponentFolder = 'WmSelectLocale';
-    }
-
-    return path.join(
-      this.config.storybookPath,
-      "components",
-      storybookComponentFolder,
-      "docs"
-    );
+  private buildSkeletonSection(doc: ComponentDoc): string {
+    const skeleton = this.renderer!.render(doc);
+    return `**Factual Skeleton** (rendered from the component data; one block per section):
+${DOC_SECTIONS.map(({ key }) => `--- ${key} ---\n${skeleton[key]}`).join("\n")}
+---
+- Use each skeleton section as the starting point of the matching JSON section.
+- Keep every table row with its name, type, default and return type exactly as in the skeleton, and don't add rows for items it doesn't list.
+- Enrich it with prose: fill empty descriptions, describe the component and its features, and add use cases and code snippets.
+`;
   }
 
-  private toWmPascalCase(str: string): string {
-    const pascalCase = str
-      .split("-")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join("");
-    return `Wm${pascalCase}`;
+  /**
+   * Get target directory for component docs
+   */
+  private getTargetDir(componentDoc: ComponentDoc): string {
+    return getStorybookDocsDir(this.config.storybookPath, componentDoc.componentName);
   }
 
   /**
@@ -304,7 +260,7 @@ Page.Widgets.myAccordion.defaultpaneindex= 2;
   async generateAndSave(componentDoc: ComponentDoc): Promise<string> {
     const targetDir = this.getTargetDir(componentDoc);
 
-    // Generate all content in one go
+    // Generate all content in one go; throws before anything is written, so good markdown is never replaced
     const docs = await this.generateAllDocs(componentDoc);
 
     // 1. Overview
@@ -328,4 +284,23 @@ Page.Widgets.myAccordion.defaultpaneindex= 2;
 
     return targetDir;
   }
+
+  /**
+   * Regenerate the whole answer with the problems fed back, but only replace the given sections' files
+   * @returns The files written
+   */
+  async regenerateSections(
+    componentDoc: ComponentDoc,
+    sections: Array<keyof GeneratedDocs>,
+    problems: string[]
+  ): Promise<string[]> {
+    const targetDir = this.getTargetDir(componentDoc);
+    const docs = await this.generateAllDocs(componentDoc, problems);
+
+    const written: string[] = [];
+    for (const { key, file } of DOC_SECTIONS.filter(section => sections.includes(section.key))) {
+      written.push(await this.saveFile(targetDir, file, docs[key]));
+    }
+    return written;
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * Parsing, repair and validation of the JSON the model returns for a component's markdown
+ */
+
+import { parseMarkdownTables } from "./markdown-tables.js";
+import { ComponentDoc } from "./types.js";
+
+export interface GeneratedDocs {
+  overview: string;
+  props: string;
+  events: string;
+  methods: string;
+  styling: string;
+}
+
+/**
+ * Sections of the answer, the file each is saved to, the heading it must start with,
+ * and which API items its tables list
+ */
+export const DOC_SECTIONS: Array<{
+  key: keyof GeneratedDocs;
+  file: string;
+  heading: string;
+  items?: (doc: ComponentDoc) => unknown[];
+}> = [
+  { key: "overview", file: "overview.md", heading: "# Overview" },
+  { key: "props", file: "props.md", heading: "# Props", items: doc => doc.props },
+  { key: "events", file: "events.md", heading: "# Callback Events", items: doc => doc.events },
+  { key: "methods", file: "methods.md", heading: "# Methods", items: doc => doc.methods },
+  { key: "styling", file: "styling.md", heading: "# Styling" },
+];
+
+/**
+ * Parse the answer as JSON, repairing it when it doesn't parse as is
+ * @returns The parsed value, or the parse error of the repaired text
+ */
+export function parseLLMJson(raw: string): { value?: unknown; error?: string } {
+  try {
+    return { value: JSON.parse(raw) };
+  } catch {
+    // Try again after repairing
+  }
+
+  try {
+    return { value: JSON.parse(repairJson(raw)) };
+  } catch (error) {
+    return { error: `response is not valid JSON: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+/**
+ * Fix what models commonly get wrong: code fences or prose around the object, raw newlines and tabs
+ * inside strings, markdown escapes such as \| that aren't JSON escapes, and trailing commas
+ */
+export function repairJson(raw: string): string {
+  let text = raw.trim();
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start >= 0 && end > start) {
+    text = text.slice(start, end + 1);
+  }
+
+  let repaired = "";
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (!inString) {
+      if (char === "\"") {
+        inString = true;
+      } else if (char === ",") {
+        // Drop a trailing comma before } or ]
+        const next = text.slice(i + 1).match(/^\s*([}\]])/);
+        if (next) continue;
+      }
+      repaired += char;
+      continue;
+    }
+
+    if (char === "\\") {
+      const next = text[i + 1];
+      if (next !== undefined && "\"\\/bfnrtu".includes(next)) {
+        repaired += char + next;
+        i++;
+      } else {
+        repaired += "\\\\";
+      }
+    } else if (char === "\"") {
+      inString = false;
+      repaired += char;
+    } else if (char === "\n") {
+      repaired += "\\n";
+    } else if (char === "\r") {
+      repaired += "\\r";
+    } else if (char === "\t") {
+      repaired += "\\t";
+    } else {
+      repaired += char;
+    }
+  }
+
+  return repaired;
+}
+
+/**
+ * Check the parsed answer: every section present as markdown starting with its heading, and tables
+ * that list something for each kind of API item the component (or its children) has
+ * @returns One message per problem, empty when the docs are usable
+ */
+export function validateDocs(value: unknown, doc: ComponentDoc): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["response must be a JSON object with overview, props, events, methods and styling"];
+  }
+
+  const docs = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const { key, heading, items } of DOC_SECTIONS) {
+    const content = docs[key];
+    if (typeof content !== "string" || content.trim() === "") {
+      errors.push(`"${key}" is missing or empty`);
+      continue;
+    }
+
+    if (!content.trimStart().startsWith(heading)) {
+      errors.push(`"${key}" must start with "${heading}"`);
+    }
+
+    const tables = parseMarkdownTables(content);
+    tables
+      .filter(table => table.rows.length === 0)
+      .forEach(table => errors.push(`"${key}" has an empty table (${table.headers.join(" | ")})`));
+
+    const count = items ? [doc, ...doc.children ?? []].reduce((sum, d) => sum + items(d).length, 0) : 0;
+    if (count > 0 && !tables.some(table => table.rows.length > 0)) {
+      errors.push(`"${key}" must have a table listing the component's ${key} (${count} in the component data)`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,275 @@
+/**
+ * LLM providers: the services that turn a documentation prompt into the JSON answer
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_MODELS, GeneratorConfig, getApiKey } from "./config.js";
+
+export interface LLMRequest {
+  /**
+   * Component the prompt documents, for logging and fixtures
+   */
+  componentName: string;
+  system: string;
+  prompt: string;
+}
+
+export interface LLMProvider {
+  name: string;
+
+  /**
+   * Model the requests are sent to
+   */
+  model: string;
+
+  /**
+   * Raw text of the answer
+   */
+  complete(request: LLMRequest): Promise<string>;
+}
+
+/**
+ * Creates a provider from the llm settings; throws when it can't be used (e.g. a missing API key)
+ */
+export type LLMProviderFactory = (config: GeneratorConfig["llm"]) => LLMProvider;
+
+const API_KEY_VARIABLES: Record<string, string> = {
+  claude: "ANTHROPIC_API_KEY",
+  openai: "OPENAI_API_KEY",
+};
+
+function requireApiKey(provider: string): string {
+  const apiKey = getApiKey(provider);
+  if (!apiKey) {
+    throw new Error(`API key not set for provider '${provider}'. Please set ${API_KEY_VARIABLES[provider]} in .env file`);
+  }
+  return apiKey;
+}
+
+function getModel(config: GeneratorConfig["llm"], provider: string): string {
+  return config.model || DEFAULT_MODELS[provider] || "";
+}
+
+export class ClaudeProvider implements LLMProvider {
+  name = "claude";
+  model: string;
+  private anthropic: Anthropic;
+
+  constructor(config: GeneratorConfig["llm"]) {
+    this.model = getModel(config, this.name);
+    this.anthropic = new Anthropic({ apiKey: requireApiKey(this.name) });
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const message = await this.anthropic.messages.create({
+      model: this.model,
+      max_tokens: 4000,
+      system: request.system,
+      messages: [
+        {
+          role: "user",
+          content: request.prompt,
+        },
+      ],
+    });
+
+    const content = message.content[0];
+    return content.type === "text" ? content.text : "";
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  name = "openai";
+  model: string;
+  private openai: OpenAI;
+
+  constructor(config: GeneratorConfig["llm"]) {
+    this.model = getModel(config, this.name);
+    this.openai = new OpenAI({ apiKey: requireApiKey(this.name) });
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const completion = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: request.system,
+        },
+        {
+          role: "user",
+          content: request.prompt,
+        },
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 4000,
+      temperature: 0.3,
+    });
+
+    return completion.choices[0]?.message?.content || "";
+  }
+}
+
+/**
+ * Local Ollama-compatible server (/api/chat), no API key needed
+ */
+export class OllamaProvider implements LLMProvider {
+  name = "ollama";
+  model: string;
+  private settings: GeneratorConfig["llm"]["ollama"];
+
+  constructor(config: GeneratorConfig["llm"]) {
+    this.model = getModel(config, this.name);
+    this.settings = config.ollama;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const { baseUrl, numCtx, jsonMode } = this.settings;
+    const url = `${baseUrl.replace(/\/+$/, "")}/api/chat`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            {
+              role: "system",
+              content: request.system,
+            },
+            {
+              role: "user",
+              content: request.prompt,
+            },
+          ],
+          stream: false,
+          format: jsonMode ? "json" : undefined,
+          options: {
+            num_ctx: numCtx,
+            temperature: 0.3,
+          },
+        }),
+      });
+    } catch (error) {
+      throw new Error(
+        `Could not reach Ollama at ${baseUrl} (is it running?): ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Ollama request failed with ${response.status}: ${body || response.statusText}`);
+    }
+
+    const result = (await response.json()) as { message?: { content?: string } };
+    return result.message?.content || "";
+  }
+}
+
+interface ReplayFixture {
+  promptHash: string;
+  componentName: string;
+  /**
+   * Provider and model that produced the response
+   */
+  recordedWith: string;
+  model: string;
+  response: string;
+}
+
+/**
+ * Answers from recorded fixtures keyed by the hash of the prompt, so the markdown pipeline runs
+ * offline and reproduces byte for byte. In record mode, prompts without a fixture are sent to
+ * llm.replay.recordWith and the answers stored.
+ */
+export class ReplayProvider implements LLMProvider {
+  name = "replay";
+  model: string;
+  private settings: GeneratorConfig["llm"]["replay"];
+  private recorder: LLMProvider | null = null;
+
+  constructor(config: GeneratorConfig["llm"]) {
+    this.settings = config.replay;
+
+    if (this.settings.mode === "record") {
+      if (this.settings.recordWith === this.name) {
+        throw new Error("llm.replay.recordWith can't be the replay provider itself");
+      }
+      this.recorder = createLLMProvider({ ...config, provider: this.settings.recordWith });
+    }
+    this.model = this.recorder?.model ?? (config.model || "recorded");
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const promptHash = ReplayProvider.hashRequest(request);
+    const fixturePath = path.join(this.settings.fixturesPath, `${promptHash}.json`);
+
+    if (fs.existsSync(fixturePath)) {
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf-8")) as ReplayFixture;
+      return fixture.response;
+    }
+
+    if (!this.recorder) {
+      throw new Error(
+        `No recorded response for ${request.componentName} (prompt ${promptHash}) in ${this.settings.fixturesPath}. ` +
+        `Record it with LLM_REPLAY_MODE=record`
+      );
+    }
+
+    const response = await this.recorder.complete(request);
+    const fixture: ReplayFixture = {
+      promptHash,
+      componentName: request.componentName,
+      recordedWith: this.recorder.name,
+      model: this.recorder.model,
+      response,
+    };
+
+    fs.mkdirSync(this.settings.fixturesPath, { recursive: true });
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+    console.log(`✓ Recorded: ${path.relative(process.cwd(), fixturePath)}`);
+    return response;
+  }
+
+  /**
+   * Key of a fixture: the system and user prompt, so any change to the prompt needs a new recording
+   */
+  static hashRequest(request: LLMRequest): string {
+    return crypto.createHash("sha256").update(`${request.system}\n\n${request.prompt}`).digest("hex").slice(0, 16);
+  }
+}
+
+const providers = new Map<string, LLMProviderFactory>([
+  ["claude", config => new ClaudeProvider(config)],
+  ["openai", config => new OpenAIProvider(config)],
+  ["ollama", config => new OllamaProvider(config)],
+  ["replay", config => new ReplayProvider(config)],
+]);
+
+/**
+ * Register a custom provider, or replace a built-in one, under the name used in llm.provider
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providers.set(name, factory);
+}
+
+export function getLLMProviderNames(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Provider named by llm.provider
+ */
+export function createLLMProvider(config: GeneratorConfig["llm"]): LLMProvider {
+  const factory = providers.get(config.provider);
+  if (!factory) {
+    throw new Error(`Unknown LLM provider '${config.provider}'. Available: ${getLLMProviderNames().join(", ")}`);
+  }
+  return factory(config);
+}
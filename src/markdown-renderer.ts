@@ -0,0 +1,137 @@
+/**
+ * Renders the five markdown files (overview, props, events, methods, styling) straight from a ComponentDoc
+ * with templates, without an LLM. Templates ship in templates/ and can be overridden per project.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { DOC_SECTIONS, GeneratedDocs } from './llm-output.js';
+import { getStorybookDocsDir, toWmPascalCase } from './storybook-docs.js';
+import { Template, TemplateHelper } from './template-engine.js';
+import { ComponentDoc } from './types.js';
+
+export const BUILT_IN_TEMPLATES = fileURLToPath(new URL('../templates/', import.meta.url));
+
+export const TEMPLATE_EXTENSION = '.hbs';
+
+/**
+ * Escape a value for a markdown table cell: pipes and line breaks would end the cell or the row
+ */
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim();
+}
+
+const HELPERS: Record<string, TemplateHelper> = {
+  cell,
+  /**
+   * `value` for a table cell, or nothing when empty
+   */
+  code: value => {
+    const text = cell(value);
+    return text ? `\`${text}\`` : '';
+  },
+  join: (list, separator) => Array.isArray(list) ? list.join(typeof separator === 'string' ? separator : ', ') : '',
+};
+
+export class MarkdownRenderer {
+  private templates = new Map<keyof GeneratedDocs, Template>();
+
+  /**
+   * @param templatesPath - Folder with project templates (<section>.md.hbs); sections without one use the built-in template
+   */
+  constructor(templatesPath?: string) {
+    for (const { key, file } of DOC_SECTIONS) {
+      const projectFile = templatesPath ? path.join(templatesPath, file + TEMPLATE_EXTENSION) : null;
+      const templateFile = projectFile && fs.existsSync(projectFile)
+        ? projectFile
+        : path.join(BUILT_IN_TEMPLATES, file + TEMPLATE_EXTENSION);
+
+      this.templates.set(key, new Template(fs.readFileSync(templateFile, 'utf-8'), templateFile));
+    }
+  }
+
+  render(doc: ComponentDoc): GeneratedDocs {
+    const context = MarkdownRenderer.toViewModel(doc);
+    const docs = {} as GeneratedDocs;
+
+    for (const [key, template] of this.templates) {
+      // Collapse the blank lines left by empty blocks, and end with a single newline
+      docs[key] = template.render(context, HELPERS).replace(/\n{3,}/g, '\n\n').trim() + '\n';
+    }
+
+    return docs;
+  }
+
+  /**
+   * Render and write the files to the component's Storybook docs folder
+   * @returns The files written
+   */
+  renderAndSave(doc: ComponentDoc, storybookPath: string): string[] {
+    const targetDir = getStorybookDocsDir(storybookPath, doc.componentName);
+    if (!fs.existsSync(targetDir)) {
+      fs.mkdirSync(targetDir, { recursive: true });
+    }
+
+    const docs = this.render(doc);
+    return DOC_SECTIONS.map(({ key, file }) => {
+      const filePath = path.join(targetDir, file);
+      fs.writeFileSync(filePath, docs[key], 'utf-8');
+      return filePath;
+    });
+  }
+
+  /**
+   * What templates see. Every field is present (possibly empty), so a missing field of an item
+   * never resolves to the component's field of the same name.
+   */
+  static toViewModel(doc: ComponentDoc): Record<string, unknown> {
+    const children = (doc.children ?? []).map(child => this.toViewModel(child));
+
+    return {
+      name: doc.componentName,
+      title: toWmPascalCase(doc.componentName),
+      category: doc.category,
+      baseClass: doc.baseClass ?? '',
+      description: doc.description ?? '',
+      runtimeVersion: doc.runtimeVersion ?? '',
+      props: doc.props.map(prop => ({
+        name: prop.name,
+        type: prop.type,
+        default: prop.defaultValue ?? '',
+        description: prop.description ?? '',
+        allowedValues: (prop.allowedValues ?? []).map(value => `\`${cell(JSON.stringify(value))}\``).join(', '),
+        deprecated: !!prop.deprecated,
+        deprecationMessage: prop.deprecationMessage ?? '',
+        inheritedFrom: prop.inheritedFrom ?? '',
+        since: prop.since ?? '',
+      })),
+      events: doc.events.map(event => ({
+        name: event.name,
+        args: (event.args ?? []).map(arg => `${arg.name}${arg.optional ? '?' : ''}: ${arg.type}`).join(', '),
+        description: event.description ?? '',
+        deprecated: !!event.deprecated,
+        deprecationMessage: event.deprecationMessage ?? '',
+      })),
+      methods: doc.methods.map(method => ({
+        name: method.name,
+        parameters: method.parameters.map(param => `${param.name}${param.optional ? '?' : ''}: ${param.type}`).join(', '),
+        returnType: method.returnType,
+        description: method.description ?? '',
+        deprecated: !!method.deprecated,
+        deprecationMessage: method.deprecationMessage ?? '',
+      })),
+      styles: doc.styles.map(style => ({
+        className: style.className,
+        description: style.description ?? '',
+        extends: style.extends ?? '',
+        parts: Object.keys(style.properties ?? {}).map(part => `\`${part}\``).join(', '),
+      })),
+      children,
+      childTitles: children.map(child => `\`${child.title}\``).join(', '),
+      firstMethod: doc.methods[0]?.name ?? '',
+      deprecatedProps: doc.props.filter(prop => prop.deprecated).map(prop => `\`${prop.name}\``).join(', '),
+    };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Reads the tables of the generated markdown (props.md, events.md, methods.md)
+ */
+
+export interface MarkdownTable {
+  /**
+   * Closest heading above the table, if any
+   */
+  heading?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * First-column headers the generated tables use for each kind of API item (matched case-insensitively)
+ */
+export const TABLE_HEADERS: Record<'prop' | 'event' | 'method' | 'style', string[]> = {
+  prop: ['Name', 'Prop', 'Property', 'Props', 'Properties'],
+  event: ['Event', 'Events', 'Name', 'Callback'],
+  method: ['Method', 'Methods', 'Name'],
+  style: ['Class', 'Class Name', 'CSS Class', 'Style Class', 'Selector', 'Name'],
+};
+
+/**
+ * One row of a table listing API items: its name and its cells keyed by lower-case header
+ */
+export interface TableEntry {
+  name: string;
+  cells: Record<string, string>;
+}
+
+/**
+ * Parse every GitHub-flavoured table of a markdown document, skipping fenced code blocks
+ */
+export function parseMarkdownTables(markdown: string): MarkdownTable[] {
+  const tables: MarkdownTable[] = [];
+  const lines = markdown.split(/\r?\n/);
+  let heading: string | undefined;
+  let inCode = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (line.startsWith('```') || line.startsWith('~~~')) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) continue;
+
+    const headingMatch = line.match(/^#{1,6}\s+(.*)$/);
+    if (headingMatch) {
+      heading = headingMatch[1].trim();
+      continue;
+    }
+
+    // A table starts with a header row followed by a |---|---| delimiter row
+    if (!line.includes('|') || !isDelimiterRow(lines[i + 1]?.trim() ?? '')) continue;
+
+    const table: MarkdownTable = { heading, headers: splitRow(line), rows: [] };
+    i += 2;
+    while (i < lines.length && lines[i].trim().includes('|')) {
+      table.rows.push(splitRow(lines[i].trim()));
+      i++;
+    }
+    i--;
+    tables.push(table);
+  }
+
+  return tables;
+}
+
+/**
+ * Rows of the tables whose first header is one of the given ones (case-insensitive),
+ * e.g. "Name" or "Prop" for props.md
+ */
+export function getTableEntries(markdown: string, firstHeaders: string[]): TableEntry[] {
+  const accepted = firstHeaders.map(header => header.toLowerCase());
+  const entries: TableEntry[] = [];
+
+  for (const table of parseMarkdownTables(markdown)) {
+    if (!accepted.includes(stripFormatting(table.headers[0] ?? '').toLowerCase())) continue;
+
+    const headers = table.headers.map(header => stripFormatting(header).toLowerCase());
+    for (const row of table.rows) {
+      const name = toIdentifier(row[0] ?? '');
+      if (!name) continue;
+
+      const cells: Record<string, string> = {};
+      headers.forEach((header, index) => cells[header] = row[index] ?? '');
+      entries.push({ name, cells });
+    }
+  }
+
+  return entries;
+}
+
+function isDelimiterRow(line: string): boolean {
+  return /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test(line);
+}
+
+/**
+ * Split a table row on unescaped pipes, so `a \| b` stays in one cell
+ */
+function splitRow(line: string): string[] {
+  const cells = line.replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function stripFormatting(cell: string): string {
+  return cell.replace(/[`*]/g, '').trim();
+}
+
+/**
+ * "`caption`", "**open(index)**", "`Page.Widgets.tabs.goToTab()`", "`.app-button`" -> caption, open, goToTab, app-button
+ */
+function toIdentifier(cell: string): string | null {
+  const text = stripFormatting(cell).split('(')[0].trim().replace(/^\./, '');
+  const last = text.split('.').pop() ?? '';
+  const match = last.match(/^[A-Za-z_$][\w$-]*/);
+  return match ? match[0] : null;
+}
@@ -0,0 +1,183 @@
+/**
+ * Reads components from a published @wavemaker/app-rn-runtime package:
+ * an installed node_modules directory, a local .tgz, or a version fetched with npm pack
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { execFileSync } from 'child_process';
+
+export const RUNTIME_PACKAGE = '@wavemaker/app-rn-runtime';
+
+export interface PackageSourceInfo {
+  /**
+   * Package root, laid out as components/<category>/<name> and core/
+   */
+  componentsPath: string;
+  packageName: string;
+  version: string;
+}
+
+export class PackageSource {
+  /**
+   * Whether a --source path points at a runtime package rather than a storybook checkout
+   */
+  static isPackageSource(sourcePath: string): boolean {
+    return sourcePath.endsWith('.tgz') || this.findInstalledPackage(sourcePath) !== null;
+  }
+
+  /**
+   * Resolve a package directory, a project with the runtime installed, or a .tgz
+   */
+  static resolve(sourcePath: string): PackageSourceInfo {
+    if (sourcePath.endsWith('.tgz')) {
+      return this.fromTarball(sourcePath);
+    }
+
+    const packageDir = this.findInstalledPackage(sourcePath);
+    if (!packageDir) {
+      throw new Error(`No ${RUNTIME_PACKAGE} package found at ${sourcePath}`);
+    }
+
+    return this.readPackage(packageDir);
+  }
+
+  /**
+   * Extract a package tarball (npm pack layout: package/...) into a temporary directory
+   */
+  static fromTarball(tarballPath: string): PackageSourceInfo {
+    if (!fs.existsSync(tarballPath)) {
+      throw new Error(`Tarball not found: ${tarballPath}`);
+    }
+
+    const destDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wm-doc-runtime-'));
+    this.registerCleanup(destDir);
+
+    console.log(`Extracting ${path.basename(tarballPath)}...`);
+    this.extractTarball(fs.readFileSync(tarballPath), destDir);
+
+    const packageDir = fs.existsSync(path.join(destDir, 'package', 'package.json'))
+      ? path.join(destDir, 'package')
+      : destDir;
+
+    return this.readPackage(packageDir);
+  }
+
+  /**
+   * Fetch a published runtime version from the npm registry with `npm pack`
+   */
+  static fromVersion(version: string, packageName: string = RUNTIME_PACKAGE): PackageSourceInfo {
+    const packDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wm-doc-pack-'));
+    this.registerCleanup(packDir);
+
+    console.log(`Fetching ${packageName}@${version} from the npm registry...`);
+    const output = execFileSync('npm', ['pack', `${packageName}@${version}`, '--pack-destination', packDir, '--silent'], {
+      encoding: 'utf-8',
+    });
+
+    const tarballName = output.trim().split('\n').pop() || '';
+    return this.fromTarball(path.join(packDir, tarballName));
+  }
+
+  /**
+   * Minimal tar reader (ustar, pax and GNU long names) for gzipped npm tarballs
+   */
+  static extractTarball(tarball: Buffer, destDir: string): void {
+    const data = tarball[0] === 0x1f && tarball[1] === 0x8b ? zlib.gunzipSync(tarball) : tarball;
+    const root = path.resolve(destDir);
+    let offset = 0;
+    let longName: string | null = null;
+
+    const readString = (start: number, length: number) =>
+      data.toString('utf-8', start, start + length).replace(/\0.*$/s, '');
+
+    while (offset + 512 <= data.length) {
+      const header = data.subarray(offset, offset + 512);
+      if (header.every(byte => byte === 0)) {
+        break;
+      }
+
+      const size = parseInt(readString(offset + 124, 12).trim() || '0', 8);
+      const type = String.fromCharCode(header[156] || 48);
+      const prefix = readString(offset + 345, 155);
+      const name = longName ?? (prefix ? `${prefix}/${readString(offset, 100)}` : readString(offset, 100));
+      const bodyStart = offset + 512;
+      const body = data.subarray(bodyStart, bodyStart + size);
+      longName = null;
+
+      if (type === 'x') {
+        // pax extended header: "<len> path=<name>\n"
+        const match = body.toString('utf-8').match(/\d+ path=([^\n]*)\n/);
+        if (match) longName = match[1];
+      } else if (type === 'L') {
+        longName = body.toString('utf-8').replace(/\0.*$/s, '');
+      } else if (type === '0' || type === '\0' || type === '5') {
+        const target = path.resolve(root, name);
+
+        // Never write outside the destination directory
+        if (target === root || target.startsWith(root + path.sep)) {
+          if (type === '5') {
+            fs.mkdirSync(target, { recursive: true });
+          } else {
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, body);
+          }
+        }
+      }
+
+      offset = bodyStart + Math.ceil(size / 512) * 512;
+    }
+  }
+
+  /**
+   * The runtime package itself, or a project that has it installed in node_modules
+   */
+  private static findInstalledPackage(sourcePath: string): string | null {
+    const candidates = [sourcePath, path.join(sourcePath, 'node_modules', ...RUNTIME_PACKAGE.split('/'))];
+
+    for (const candidate of candidates) {
+      const packageJsonPath = path.join(candidate, 'package.json');
+      if (!fs.existsSync(packageJsonPath)) continue;
+
+      try {
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        if (packageJson.name === RUNTIME_PACKAGE) {
+          return candidate;
+        }
+      } catch (error) {
+        // Not a readable package.json
+      }
+    }
+
+    return null;
+  }
+
+  private static readPackage(packageDir: string): PackageSourceInfo {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+
+    if (!fs.existsSync(path.join(packageDir, 'components'))) {
+      console.warn(`Warning: ${packageDir} has no components/ folder`);
+    }
+
+    return {
+      componentsPath: packageDir,
+      packageName: packageJson.name,
+      version: packageJson.version,
+    };
+  }
+
+  /**
+   * Remove a temporary directory when the process exits
+   */
+  static registerCleanup(dir: string): void {
+    process.on('exit', () => {
+      try {
+        fs.rmSync(dir, { recursive: true, force: true });
+      } catch (error) {
+        // Temporary directory already gone
+      }
+    });
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Resolves inherited props by following the imports of the props file, for both
+ * original sources (.ts/.tsx) and the sources carried by .js.map files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { BaseTypeFilter, TypeScriptParser } from './ts-parser.js';
+import { SourceExtractor } from './source-extractor.js';
+import { AllowedValuesResolver } from './allowed-values.js';
+import { getCategoriesPath } from './source-layout.js';
+import { PropInfo } from './types.js';
+
+/**
+ * A props declaration and the file it was read from
+ */
+interface PropsDeclaration {
+  name: string;
+  props: PropInfo[];
+  baseClasses: string[];
+  baseTypeFilters: Record<string, BaseTypeFilter>;
+  source: string;
+  filePath: string;
+}
+
+export interface InheritedProps {
+  props: PropInfo[];
+  inheritanceChain: string[];
+  /**
+   * Files the parents were read from
+   */
+  files: string[];
+}
+
+export class PropsInheritanceResolver {
+  private componentsPath: string;
+  private allowedValues: AllowedValuesResolver;
+  private locateFallback: (className: string) => string | null;
+  private sourceCache = new Map<string, string | null>();
+  private declarationCache = new Map<string, PropsDeclaration | null>();
+
+  /**
+   * @param componentsPath - Root of the components tree
+   * @param allowedValues - Resolver applied to every parent's props
+   * @param locateFallback - Finds a parent by name when it is neither declared nor imported in the file
+   */
+  constructor(
+    componentsPath: string,
+    allowedValues: AllowedValuesResolver,
+    locateFallback: (className: string) => string | null
+  ) {
+    this.componentsPath = componentsPath;
+    this.allowedValues = allowedValues;
+    this.locateFallback = locateFallback;
+  }
+
+  /**
+   * Collect the props of every ancestor, depth-first in extends order.
+   * Each ancestor is visited once, so diamonds and cycles are safe.
+   * @param baseClasses - Names in the extends clause of the props declaration
+   * @param source - Source of the file declaring the props
+   * @param filePath - Path of that file (.ts/.tsx or .js.map), used to resolve its imports
+   * @param className - Name of the props declaration itself
+   * @param baseTypeFilters - Omit/Pick/Partial/Required around the names in the extends clause
+   */
+  resolve(
+    baseClasses: string[],
+    source: string,
+    filePath: string,
+    className?: string,
+    baseTypeFilters: Record<string, BaseTypeFilter> = {}
+  ): InheritedProps {
+    const result: InheritedProps = { props: [], inheritanceChain: [], files: [] };
+    this.collect(baseClasses, baseTypeFilters, source, filePath, result, new Set(className ? [className] : []));
+    return result;
+  }
+
+  /**
+   * @param outerFilter - Utility types applied further down the chain, which apply to every ancestor above them too
+   */
+  private collect(
+    baseClasses: string[],
+    baseTypeFilters: Record<string, BaseTypeFilter>,
+    source: string,
+    filePath: string,
+    result: InheritedProps,
+    visited: Set<string>,
+    outerFilter?: BaseTypeFilter
+  ): void {
+    for (const baseClass of baseClasses) {
+      if (visited.has(baseClass)) {
+        continue;
+      }
+      visited.add(baseClass);
+
+      const declaration = this.findDeclaration(baseClass, source, filePath, 0);
+      if (!declaration) {
+        console.warn(`Could not find props declaration for parent class: ${baseClass}`);
+        continue;
+      }
+
+      // Record the declared name, not a local alias such as `import { default as FieldProps }`
+      const parentName = declaration.name;
+      if (parentName !== baseClass) {
+        if (visited.has(parentName)) continue;
+        visited.add(parentName);
+      }
+
+      this.allowedValues.apply(declaration.props, declaration.source, path.dirname(declaration.filePath));
+
+      result.inheritanceChain.push(parentName);
+      result.files.push(declaration.filePath);
+      const filter = TypeScriptParser.combineBaseTypeFilters(outerFilter, baseTypeFilters[baseClass]);
+      result.props.push(
+        ...this.applyFilter(declaration.props, filter).map(prop => ({
+          ...prop,
+          inherited: true,
+          inheritedFrom: parentName,
+        }))
+      );
+
+      this.collect(declaration.baseClasses, declaration.baseTypeFilters, declaration.source, declaration.filePath, result, visited, filter);
+    }
+  }
+
+  /**
+   * Drop the props an Omit or Pick leaves out, and apply the optionality of Partial or Required
+   */
+  private applyFilter(props: PropInfo[], filter: BaseTypeFilter | undefined): PropInfo[] {
+    if (!filter) {
+      return props;
+    }
+
+    return props
+      .filter(prop => !filter.omit?.includes(prop.name) && (!filter.pick || filter.pick.includes(prop.name)))
+      .map(prop => filter.optional === undefined ? prop : { ...prop, optional: filter.optional });
+  }
+
+  /**
+   * Find a props declaration visible from a file: declared in it, imported (or re-exported) by it,
+   * or located by name as a last resort
+   */
+  private findDeclaration(name: string, source: string, filePath: string, depth: number): PropsDeclaration | null {
+    const local = this.readDeclaration(name, source, filePath);
+    if (local) {
+      return local;
+    }
+
+    if (depth <= 10) {
+      for (const binding of this.findImportBindings(name, source)) {
+        const modulePath = this.resolveImport(binding.specifier, filePath);
+        const moduleSource = modulePath ? this.readSource(modulePath) : null;
+        if (!modulePath || !moduleSource) {
+          continue;
+        }
+
+        const importedName = binding.importedName === 'default'
+          ? this.findDefaultExportName(moduleSource) ?? name
+          : binding.importedName;
+
+        const imported = this.findDeclaration(importedName, moduleSource, modulePath, depth + 1);
+        if (imported) {
+          return imported;
+        }
+      }
+    }
+
+    if (depth > 0) {
+      return null;
+    }
+
+    const fallbackPath = this.locateFallback(name);
+    const fallbackSource = fallbackPath ? this.readSource(fallbackPath) : null;
+    if (fallbackPath && fallbackSource) {
+      // Files found by name may declare the class under another name (e.g. a default export)
+      return this.readDeclaration(name, fallbackSource, fallbackPath) ?? this.readDeclaration(undefined, fallbackSource, fallbackPath);
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse a props declaration once per file; parents such as BaseProps are shared by most components
+   */
+  private readDeclaration(name: string | undefined, source: string, filePath: string): PropsDeclaration | null {
+    const key = `${filePath}#${name ?? '*'}`;
+    if (!this.declarationCache.has(key)) {
+      const found = TypeScriptParser.extractProps(source, name);
+      this.declarationCache.set(key, found
+        ? { name: found.className, props: found.props, baseClasses: found.baseClasses, baseTypeFilters: found.baseTypeFilters, source, filePath }
+        : null);
+    }
+    return this.declarationCache.get(key)!;
+  }
+
+  /**
+   * import X from '...', import { X } from '...', import { Y as X } from '...',
+   * export { X } from '...' and export * from '...'
+   * @returns The import or re-export naming X, else every `export *` module in order, since any of them may declare it
+   */
+  private findImportBindings(name: string, source: string): Array<{ specifier: string; importedName: string }> {
+    const sourceFile = TypeScriptParser.createSourceFile(source);
+    const wildcards: string[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) && statement.importClause) {
+        const specifier = statement.moduleSpecifier.text;
+        const { name: defaultName, namedBindings } = statement.importClause;
+
+        if (defaultName?.text === name) {
+          return [{ specifier, importedName: 'default' }];
+        }
+
+        if (namedBindings && ts.isNamedImports(namedBindings)) {
+          const element = namedBindings.elements.find(e => e.name.text === name);
+          if (element) {
+            return [{ specifier, importedName: (element.propertyName ?? element.name).text }];
+          }
+        }
+      }
+
+      if (ts.isExportDeclaration(statement) && statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const specifier = statement.moduleSpecifier.text;
+
+        if (!statement.exportClause) {
+          wildcards.push(specifier);
+        } else if (ts.isNamedExports(statement.exportClause)) {
+          const element = statement.exportClause.elements.find(e => e.name.text === name);
+          if (element) {
+            return [{ specifier, importedName: (element.propertyName ?? element.name).text }];
+          }
+        }
+      }
+    }
+
+    return wildcards.map(specifier => ({ specifier, importedName: name }));
+  }
+
+  /**
+   * Name of the default export: export default class X / interface X, or export default X
+   */
+  private findDefaultExportName(source: string): string | null {
+    const sourceFile = TypeScriptParser.createSourceFile(source);
+
+    for (const statement of sourceFile.statements) {
+      if ((ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)) && statement.name &&
+          statement.modifiers?.some(m => m.kind === ts.SyntaxKind.DefaultKeyword)) {
+        return statement.name.text;
+      }
+
+      if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        return statement.expression.text;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a module specifier to a file.
+   * Relative paths are resolved next to the importing file (source maps sit where their original did).
+   * Package paths (@wavemaker/app-rn-runtime/core/base.component) are tried against the tree root
+   * and then node_modules.
+   */
+  private resolveImport(specifier: string, fromFile: string): string | null {
+    if (specifier.startsWith('.')) {
+      return SourceExtractor.resolveModulePath(path.resolve(path.dirname(fromFile), specifier));
+    }
+
+    const parts = specifier.split('/');
+    const packageParts = specifier.startsWith('@') ? parts.slice(0, 2) : parts.slice(0, 1);
+    const subPath = parts.slice(packageParts.length).join('/');
+
+    // The tree is the package itself (runtime package) or its src folder (storybook checkout)
+    if (subPath) {
+      const roots = [...new Set([
+        this.componentsPath,
+        path.dirname(getCategoriesPath(this.componentsPath)),
+      ])];
+
+      for (const root of roots) {
+        const resolved = SourceExtractor.resolveModulePath(path.join(root, subPath));
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+
+    // node_modules, searched upward from the importing file
+    let dir = path.dirname(path.resolve(fromFile));
+    while (true) {
+      const packageDir = path.join(dir, 'node_modules', ...packageParts);
+      if (fs.existsSync(packageDir)) {
+        const resolved = SourceExtractor.resolveModulePath(path.join(packageDir, subPath || 'index'));
+        if (resolved) {
+          return resolved;
+        }
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  private readSource(filePath: string): string | null {
+    if (!this.sourceCache.has(filePath)) {
+      this.sourceCache.set(filePath, SourceExtractor.readSourceFile(filePath));
+    }
+    return this.sourceCache.get(filePath)!;
+  }
+}
@@ -4,7 +4,13 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SourceMapContent } from './types.js';
+import { ComponentSources, SourceEntry, SourceMapContent, SourceRole } from './types.js';
+import { ComponentFiles, legacyMapLayout, tsxLayout } from './source-layout.js';
+
+/**
+ * Extensions tried when an import specifier is resolved to a file
+ */
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '/index.ts', '/index.tsx', '.js.map', '/index.js.map'];
 
 export class SourceExtractor {
   /**
@@ -22,25 +28,34 @@ export class SourceExtractor {
 
   /**
    * Extract TypeScript source content from source map
+   * Without an index, the entry named like the map (button.props.js.map -> button.props.ts) is used,
+   * falling back to the first one.
    */
-  static extractSourceContent(mapFilePath: string, sourceIndex: number = 0): string | null {
+  static extractSourceContent(mapFilePath: string, sourceIndex?: number): string | null {
     const sourceMap = this.readSourceMap(mapFilePath);
 
     if (!sourceMap) {
       return null;
     }
 
-    if (!sourceMap.sourcesContent || sourceMap.sourcesContent.length === 0) {
-      console.error(`No source content found in ${mapFilePath}`);
+    if (!sourceMap.sources || sourceMap.sources.length === 0) {
+      console.error(`No sources listed in ${mapFilePath}`);
       return null;
     }
 
-    if (sourceIndex >= sourceMap.sourcesContent.length) {
-      console.error(`Source index ${sourceIndex} out of bounds for ${mapFilePath}`);
+    const index = sourceIndex ?? this.findMatchingSourceIndex(mapFilePath, sourceMap);
+
+    if (index >= sourceMap.sources.length) {
+      console.error(`Source index ${index} out of bounds for ${mapFilePath}`);
       return null;
     }
 
-    return sourceMap.sourcesContent[sourceIndex];
+    const content = this.getSourceContent(mapFilePath, sourceMap, index);
+    if (content === null) {
+      console.error(`No source content found in ${mapFilePath} for ${sourceMap.sources[index]}`);
+    }
+
+    return content;
   }
 
   /**
@@ -60,90 +75,189 @@ export class SourceExtractor {
     return sourceMap.sources[sourceIndex];
   }
 
+  /**
+   * Extract every original source listed in a map.
+   * Entries without sourcesContent are read from disk when the original file is still there,
+   * otherwise they are reported in `missing`.
+   */
+  static extractAllSources(mapFilePath: string): { entries: SourceEntry[]; missing: string[] } {
+    const entries: SourceEntry[] = [];
+    const missing: string[] = [];
+    const sourceMap = this.readSourceMap(mapFilePath);
+
+    if (!sourceMap) {
+      return { entries, missing: [`${mapFilePath}: unreadable source map`] };
+    }
+
+    (sourceMap.sources || []).forEach((fileName, index) => {
+      const content = this.getSourceContent(mapFilePath, sourceMap, index);
+      if (content === null) {
+        missing.push(`${mapFilePath}: ${fileName}`);
+        return;
+      }
+
+      entries.push({
+        fileName,
+        role: this.getSourceRole(fileName),
+        content,
+        origin: mapFilePath,
+      });
+    });
+
+    return { entries, missing };
+  }
+
+  /**
+   * Classify an original file by name: *.props.ts, *.component.tsx, *.styles.ts
+   */
+  static getSourceRole(fileName: string): SourceRole {
+    const baseName = path.basename(fileName);
+
+    if (/\.props\.tsx?$/.test(baseName)) return 'props';
+    if (/\.component\.tsx?$/.test(baseName)) return 'component';
+    if (/\.styles\.tsx?$/.test(baseName)) return 'styles';
+    return 'other';
+  }
+
   /**
    * Extract all source files from a component directory
    * Supports both old format (.js.map files) and new format (direct .tsx/.ts files)
    */
-  static extractComponentSources(componentDir: string): {
-    props?: string;
-    component?: string;
-    styles?: string;
-  } {
-    const sources: {
-      props?: string;
-      component?: string;
-      styles?: string;
-    } = {};
-
-    const files = fs.readdirSync(componentDir);
-
-    // Check for new format first (index.tsx or index.ts)
-    const indexTsx = files.find(f => f === 'index.tsx' || f === 'index.ts');
-    if (indexTsx) {
-      // Read the TypeScript file directly
-      const indexPath = path.join(componentDir, indexTsx);
-      try {
-        const content = fs.readFileSync(indexPath, 'utf-8');
-        // For new format, the index file contains both props and component
-        sources.component = content;
-        sources.props = content; // Same file contains props interface/type
-      } catch (error) {
-        console.error(`Error reading ${indexPath}:`, error);
-      }
+  static extractComponentSources(componentDir: string): ComponentSources {
+    const entries = fs.readdirSync(componentDir, { withFileTypes: true });
+    const layout = tsxLayout.isComponentDir(componentDir, entries) ? tsxLayout : legacyMapLayout;
+    return this.readComponentFiles(componentDir, layout.locateFiles(componentDir));
+  }
 
-      // Check for separate types file
-      const typesFile = files.find(f => f === 'types.ts' || f === 'types.tsx' || f.endsWith('.types.ts'));
-      if (typesFile) {
-        const typesPath = path.join(componentDir, typesFile);
-        try {
-          const typesContent = fs.readFileSync(typesPath, 'utf-8');
-          sources.props = typesContent; // Override with dedicated types file
-        } catch (error) {
-          console.error(`Error reading ${typesPath}:`, error);
-        }
-      }
+  /**
+   * Read the files a source layout located for a component.
+   * Original sources are read as they are; source maps are read entry by entry
+   * and bundled maps are matched to props/component/styles by file name.
+   */
+  static readComponentFiles(componentDir: string, located: ComponentFiles): ComponentSources {
+    const sources: ComponentSources = { files: [], missingContent: [] };
+    const slots: Array<[Exclude<SourceRole, 'other'>, string | undefined]> = [
+      ['props', located.props],
+      ['component', located.component],
+      ['styles', located.styles],
+    ];
+
+    // Original sources: the slot decides the role
+    for (const [role, filePath] of slots) {
+      if (!filePath || filePath.endsWith('.js.map')) continue;
 
-      // Check for styles file
-      const stylesFile = files.find(f =>
-        f === 'styles.ts' ||
-        f === 'styles.tsx' ||
-        f.endsWith('.styles.ts') ||
-        f.endsWith('.styles.tsx')
-      );
-      if (stylesFile) {
-        const stylesPath = path.join(componentDir, stylesFile);
+      const existing = sources.files.find(entry => entry.origin === filePath);
+      if (existing) {
+        sources[role] = existing.content;
+      } else {
         try {
-          sources.styles = fs.readFileSync(stylesPath, 'utf-8');
+          const content = fs.readFileSync(filePath, 'utf-8');
+          sources.files.push({ fileName: path.basename(filePath), role, content, origin: filePath });
+          sources[role] = content;
         } catch (error) {
-          console.error(`Error reading ${stylesPath}:`, error);
+          console.error(`Error reading ${filePath}:`, error);
+          continue;
         }
       }
 
-      return sources;
+      if (role === 'props') {
+        sources.propsPath = filePath;
+      }
     }
 
-    // Fall back to old format (.js.map files)
-    // Extract props
-    const propsMap = files.find(f => f.endsWith('.props.js.map'));
-    if (propsMap) {
-      const content = this.extractSourceContent(path.join(componentDir, propsMap));
-      if (content) sources.props = content;
+    // Source maps: the dedicated maps go first so their entries win over copies bundled elsewhere
+    const mapFiles = [...new Set([
+      ...slots.map(([, filePath]) => filePath).filter((f): f is string => !!f && f.endsWith('.js.map')),
+      ...(located.extra ?? []).filter(f => f.endsWith('.js.map')),
+    ])];
+
+    for (const mapFile of mapFiles) {
+      const { entries, missing } = this.extractAllSources(mapFile);
+      sources.files.push(...entries);
+      sources.missingContent.push(...missing);
     }
 
-    // Extract component
-    const componentMap = files.find(f => f.endsWith('.component.js.map'));
-    if (componentMap) {
-      const content = this.extractSourceContent(path.join(componentDir, componentMap));
-      if (content) sources.component = content;
+    const componentName = path.basename(componentDir);
+    const pick = (role: SourceRole) => {
+      const candidates = sources.files.filter(entry => entry.role === role && entry.origin.endsWith('.js.map'));
+      // Prefer the file named after the component when a bundle contains several of the same kind
+      return candidates.find(entry => path.basename(entry.fileName).startsWith(`${componentName}.`)) ?? candidates[0];
+    };
+
+    for (const [role] of slots) {
+      if (sources[role] === undefined) {
+        sources[role] = pick(role)?.content;
+      }
     }
 
-    // Extract styles
-    const stylesMap = files.find(f => f.endsWith('.styles.js.map'));
-    if (stylesMap) {
-      const content = this.extractSourceContent(path.join(componentDir, stylesMap));
-      if (content) sources.styles = content;
+    // Maps whose sources are not named by convention: fall back to the slot the layout put the map in
+    for (const [role, filePath] of slots) {
+      if (!filePath || !filePath.endsWith('.js.map') || sources[role] !== undefined) continue;
+
+      const entry = sources.files.find(e => e.origin === filePath);
+      if (entry) sources[role] = entry.content;
     }
 
     return sources;
   }
+
+  /**
+   * Read one original source: a .ts/.tsx file, or the matching entry of a .js.map
+   */
+  static readSourceFile(filePath: string): string | null {
+    if (filePath.endsWith('.js.map')) {
+      return this.extractSourceContent(filePath);
+    }
+
+    try {
+      return fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      console.error(`Error reading ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * File behind an extension-less module path: the original .ts/.tsx, or the .js.map carrying it
+   */
+  static resolveModulePath(basePath: string): string | null {
+    for (const extension of MODULE_EXTENSIONS) {
+      const candidate = basePath + extension;
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Content of one map entry: sourcesContent, or the original file on disk
+   */
+  private static getSourceContent(mapFilePath: string, sourceMap: SourceMapContent, index: number): string | null {
+    const inline = sourceMap.sourcesContent?.[index];
+    if (typeof inline === 'string') {
+      return inline;
+    }
+
+    const originalPath = path.resolve(path.dirname(mapFilePath), sourceMap.sourceRoot || '', sourceMap.sources[index]);
+    if (fs.existsSync(originalPath)) {
+      return fs.readFileSync(originalPath, 'utf-8');
+    }
+
+    return null;
+  }
+
+  /**
+   * Index of the entry named like the map itself, or 0
+   */
+  private static findMatchingSourceIndex(mapFilePath: string, sourceMap: SourceMapContent): number {
+    const stem = path.basename(mapFilePath).replace(/\.js\.map$/, '');
+    const index = sourceMap.sources.findIndex(source => {
+      const baseName = path.basename(source);
+      return baseName === `${stem}.ts` || baseName === `${stem}.tsx`;
+    });
+
+    return index >= 0 ? index : 0;
+  }
 }
@@ -0,0 +1,246 @@
+/**
+ * Source layout adapters: how a widget library lays out its components on disk
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Files holding a component's sources. Paths may point at original sources (.ts/.tsx)
+ * or at source maps (.js.map) whose sourcesContent carries them.
+ */
+export interface ComponentFiles {
+  props?: string;
+  component?: string;
+  styles?: string;
+  /**
+   * Other files (e.g. bundled source maps) scanned for sources by name
+   */
+  extra?: string[];
+}
+
+export interface SourceLayout {
+  name: string;
+
+  /**
+   * Whether the tree at rootPath uses this layout
+   */
+  detect(rootPath: string): boolean;
+
+  /**
+   * Whether a folder is a component folder
+   */
+  isComponentDir(dirPath: string, entries: fs.Dirent[]): boolean;
+
+  /**
+   * All component folders under rootPath, with their category
+   */
+  listComponents(rootPath: string, excludeCategories: string[]): Array<{ path: string; category: string }>;
+
+  /**
+   * Locate the props, component and styles files of a component folder
+   */
+  locateFiles(componentDir: string): ComponentFiles;
+
+  /**
+   * Candidate files declaring BaseProps
+   */
+  locateBaseFiles(rootPath: string): string[];
+}
+
+/**
+ * Folder that holds the category folders: <root>/components when present, else the root itself
+ */
+export function getCategoriesPath(rootPath: string): string {
+  const componentsDir = path.join(rootPath, 'components');
+  return fs.existsSync(componentsDir) ? componentsDir : rootPath;
+}
+
+/**
+ * Walk category folders and collect every folder the predicate accepts.
+ * Shared by the built-in layouts; custom layouts can use it too.
+ */
+export function walkComponentDirs(
+  rootPath: string,
+  excludeCategories: string[],
+  isComponentDir: (dirPath: string, entries: fs.Dirent[]) => boolean
+): Array<{ path: string; category: string }> {
+  const components: Array<{ path: string; category: string }> = [];
+  const categoriesPath = getCategoriesPath(rootPath);
+
+  const walk = (dirPath: string, category: string) => {
+    const items = fs.readdirSync(dirPath, { withFileTypes: true });
+
+    if (isComponentDir(dirPath, items)) {
+      components.push({ path: dirPath, category });
+      // We don't stop here, nested components might exist
+    }
+
+    for (const item of items) {
+      // Skip node_modules or hidden folders
+      if (item.isDirectory() && !item.name.startsWith('.') && item.name !== 'node_modules') {
+        walk(path.join(dirPath, item.name), category);
+      }
+    }
+  };
+
+  const categories = fs.readdirSync(categoriesPath, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .map(dirent => dirent.name)
+    .filter(name => !excludeCategories.includes(name));
+
+  for (const category of categories) {
+    walk(path.join(categoriesPath, category), category);
+  }
+
+  return components;
+}
+
+/**
+ * Legacy layout: compiled runtime with <name>.props.js.map, <name>.component.js.map, <name>.styles.js.map
+ */
+export const legacyMapLayout: SourceLayout = {
+  name: 'legacy-map',
+
+  detect(rootPath) {
+    return fs.existsSync(path.join(rootPath, 'core', 'base.component.js.map')) ||
+      walkComponentDirs(rootPath, [], this.isComponentDir).length > 0;
+  },
+
+  isComponentDir(dirPath, entries) {
+    return entries.some(item =>
+      item.isFile() && (item.name.endsWith('.component.js.map') || item.name.endsWith('.props.js.map'))
+    );
+  },
+
+  listComponents(rootPath, excludeCategories) {
+    return walkComponentDirs(rootPath, excludeCategories, this.isComponentDir);
+  },
+
+  locateFiles(componentDir) {
+    const maps = fs.readdirSync(componentDir).filter(f => f.endsWith('.js.map'));
+    const find = (suffix: string) => {
+      const file = maps.find(f => f.endsWith(suffix));
+      return file ? path.join(componentDir, file) : undefined;
+    };
+
+    const files: ComponentFiles = {
+      props: find('.props.js.map'),
+      component: find('.component.js.map'),
+      styles: find('.styles.js.map'),
+    };
+
+    const located = [files.props, files.component, files.styles];
+    files.extra = maps
+      .map(f => path.join(componentDir, f))
+      .filter(f => !located.includes(f));
+
+    return files;
+  },
+
+  locateBaseFiles(rootPath) {
+    return [path.join(rootPath, 'core', 'base.component.js.map')];
+  },
+};
+
+/**
+ * TSX layout: <name>/index.tsx with optional types.ts and styles.ts next to it
+ */
+export const tsxLayout: SourceLayout = {
+  name: 'tsx',
+
+  detect(rootPath) {
+    return walkComponentDirs(rootPath, [], this.isComponentDir).length > 0;
+  },
+
+  isComponentDir(dirPath, entries) {
+    return entries.some(item => item.isFile() && (item.name === 'index.tsx' || item.name === 'index.ts'));
+  },
+
+  listComponents(rootPath, excludeCategories) {
+    return walkComponentDirs(rootPath, excludeCategories, this.isComponentDir);
+  },
+
+  locateFiles(componentDir) {
+    const files = fs.readdirSync(componentDir);
+    const resolve = (file?: string) => file ? path.join(componentDir, file) : undefined;
+
+    const index = files.find(f => f === 'index.tsx' || f === 'index.ts');
+    const types = files.find(f => f === 'types.ts' || f === 'types.tsx' || f.endsWith('.types.ts'));
+    const styles = files.find(f =>
+      f === 'styles.ts' ||
+      f === 'styles.tsx' ||
+      f.endsWith('.styles.ts') ||
+      f.endsWith('.styles.tsx')
+    );
+
+    return {
+      // A dedicated types file holds the props, otherwise they live in the index file
+      props: resolve(types ?? index),
+      component: resolve(index),
+      styles: resolve(styles),
+    };
+  },
+
+  locateBaseFiles(rootPath) {
+    return [
+      path.join(rootPath, 'core', 'base.ts'),
+      path.join(rootPath, 'core', 'base.tsx'),
+      path.join(rootPath, 'common', 'base.ts'),
+      path.join(rootPath, 'common', 'base.tsx'),
+    ];
+  },
+};
+
+const layouts: SourceLayout[] = [tsxLayout, legacyMapLayout];
+
+/**
+ * Register a custom layout. Custom layouts are consulted before the built-in ones.
+ */
+export function registerSourceLayout(layout: SourceLayout): void {
+  const existing = layouts.findIndex(l => l.name === layout.name);
+  if (existing >= 0) {
+    layouts.splice(existing, 1);
+  }
+  layouts.unshift(layout);
+}
+
+export function getSourceLayouts(): SourceLayout[] {
+  return [...layouts];
+}
+
+/**
+ * Layouts used for a tree: the named one when forced, else every layout that detects the tree
+ * (a storybook checkout can mix TSX and compiled components)
+ */
+export function detectSourceLayouts(rootPath: string, preferred?: string): SourceLayout[] {
+  if (preferred) {
+    const layout = layouts.find(l => l.name === preferred);
+    if (!layout) {
+      throw new Error(`Unknown source layout '${preferred}'. Available: ${layouts.map(l => l.name).join(', ')}`);
+    }
+    return [layout];
+  }
+
+  const detected = layouts.filter(layout => layout.detect(rootPath));
+  return detected.length > 0 ? detected : [...layouts];
+}
+
+/**
+ * Load custom layouts from modules exporting a SourceLayout (default export or `layout`)
+ */
+export async function loadSourceLayouts(modulePaths: string[]): Promise<void> {
+  for (const modulePath of modulePaths) {
+    const resolved = path.resolve(process.cwd(), modulePath);
+    const module = await import(pathToFileURL(resolved).href);
+    const layout: SourceLayout | undefined = module.default ?? module.layout;
+
+    if (!layout || typeof layout.locateFiles !== 'function' || typeof layout.listComponents !== 'function') {
+      throw new Error(`${modulePath} does not export a SourceLayout`);
+    }
+
+    registerSourceLayout(layout);
+    console.log(`Registered source layout '${layout.name}' from ${modulePath}`);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Locations of the per-component docs folders in the Storybook checkout
+ */
+
+import * as path from 'path';
+
+/**
+ * Storybook folders that don't follow the Wm<PascalCase> naming
+ */
+const FOLDER_OVERRIDES: Record<string, string> = {
+  dialog: 'WmDesignDialog',
+  layoutgrid: 'WmGridLayout',
+  selectlocale: 'WmSelectLocale',
+};
+
+/**
+ * progress-bar -> WmProgressBar
+ */
+export function toWmPascalCase(name: string): string {
+  const pascalCase = name
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return `Wm${pascalCase}`;
+}
+
+/**
+ * {storybookPath}/components/{WmComponent}/docs, where props.md, events.md etc. live
+ */
+export function getStorybookDocsDir(storybookPath: string, componentName: string): string {
+  const folderName = FOLDER_OVERRIDES[componentName] ?? toWmPascalCase(componentName);
+  return path.join(storybookPath, 'components', folderName, 'docs');
+}
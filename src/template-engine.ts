@@ -0,0 +1,177 @@
+/**
+ * Minimal Handlebars-style templates: {{value}}, {{helper arg "literal"}}, {{#each}}, {{#if}},
+ * {{#unless}} with {{else}}, and {{! comments }}. Nothing is escaped; helpers format values for markdown.
+ */
+
+export type TemplateHelper = (...args: unknown[]) => unknown;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; expression: string }
+  | { type: 'block'; name: 'each' | 'if' | 'unless'; expression: string; body: TemplateNode[]; inverse: TemplateNode[] };
+
+interface Scope {
+  context: unknown;
+  data: Record<string, unknown>;
+}
+
+const BLOCKS = ['each', 'if', 'unless'];
+
+/**
+ * A block tag, {{else}} or comment alone on its line renders no line of its own
+ */
+const STANDALONE_TAG = /^[ \t]*(\{\{(?:#|\/|!|else\b)(?:[^}]|\}(?!\}))*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+const TAG = /\{\{!--[\s\S]*?--\}\}|\{\{[\s\S]*?\}\}/g;
+
+export class Template {
+  private name: string;
+  private nodes: TemplateNode[];
+
+  /**
+   * @param name - Shown in syntax errors, usually the template file
+   */
+  constructor(source: string, name: string) {
+    this.name = name;
+    this.nodes = this.parse(source.replace(STANDALONE_TAG, '$1'));
+  }
+
+  render(context: unknown, helpers: Record<string, TemplateHelper> = {}): string {
+    return this.renderNodes(this.nodes, [{ context, data: {} }], helpers);
+  }
+
+  private parse(source: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open blocks, innermost last; nodes are appended to the body or inverse of the innermost one
+    const stack: Array<{ node: Extract<TemplateNode, { type: 'block' }>; inElse: boolean }> = [];
+    const append = (node: TemplateNode) => {
+      const open = stack[stack.length - 1];
+      (open ? (open.inElse ? open.node.inverse : open.node.body) : root).push(node);
+    };
+
+    let position = 0;
+    for (const match of source.matchAll(TAG)) {
+      if (match.index! > position) {
+        append({ type: 'text', value: source.slice(position, match.index) });
+      }
+      position = match.index! + match[0].length;
+
+      const tag = match[0].slice(2, -2).trim();
+      if (tag.startsWith('!')) continue;
+
+      if (tag.startsWith('#')) {
+        const [name, ...rest] = tag.slice(1).trim().split(/\s+/);
+        if (!BLOCKS.includes(name)) {
+          throw new Error(`${this.name}: unknown block {{#${name}}}`);
+        }
+        const node: TemplateNode = { type: 'block', name: name as 'each' | 'if' | 'unless', expression: rest.join(' '), body: [], inverse: [] };
+        append(node);
+        stack.push({ node, inElse: false });
+      } else if (tag.startsWith('/')) {
+        const name = tag.slice(1).trim();
+        const open = stack.pop();
+        if (!open || open.node.name !== name) {
+          throw new Error(`${this.name}: {{/${name}}} doesn't close ${open ? `{{#${open.node.name}}}` : 'any block'}`);
+        }
+      } else if (tag === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open) {
+          throw new Error(`${this.name}: {{else}} outside a block`);
+        }
+        open.inElse = true;
+      } else {
+        append({ type: 'value', expression: tag });
+      }
+    }
+
+    if (stack.length > 0) {
+      throw new Error(`${this.name}: {{#${stack[stack.length - 1].node.name}}} is never closed`);
+    }
+    if (position < source.length) {
+      append({ type: 'text', value: source.slice(position) });
+    }
+    return root;
+  }
+
+  private renderNodes(nodes: TemplateNode[], scopes: Scope[], helpers: Record<string, TemplateHelper>): string {
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        output += node.value;
+      } else if (node.type === 'value') {
+        output += this.toText(this.evaluate(node.expression, scopes, helpers));
+      } else if (node.name === 'each') {
+        const items = this.evaluate(node.expression, scopes, helpers);
+        if (Array.isArray(items) && items.length > 0) {
+          items.forEach((item, index) => {
+            const data = { index, first: index === 0, last: index === items.length - 1 };
+            output += this.renderNodes(node.body, [...scopes, { context: item, data }], helpers);
+          });
+        } else {
+          output += this.renderNodes(node.inverse, scopes, helpers);
+        }
+      } else {
+        const truthy = this.isTruthy(this.evaluate(node.expression, scopes, helpers));
+        output += this.renderNodes(truthy === (node.name === 'if') ? node.body : node.inverse, scopes, helpers);
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * A path (name, item.type, this, @index) or a helper call with paths and "literals" as arguments
+   */
+  private evaluate(expression: string, scopes: Scope[], helpers: Record<string, TemplateHelper>): unknown {
+    const tokens = expression.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+    const [first, ...args] = tokens;
+
+    if (first && helpers[first]) {
+      return helpers[first](...args.map(arg => this.resolveArgument(arg, scopes)));
+    }
+    if (args.length > 0) {
+      throw new Error(`${this.name}: unknown helper '${first}' in {{${expression}}}`);
+    }
+    return first ? this.lookup(first, scopes) : undefined;
+  }
+
+  private resolveArgument(token: string, scopes: Scope[]): unknown {
+    if (/^(["']).*\1$/.test(token)) return token.slice(1, -1);
+    if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+    return this.lookup(token, scopes);
+  }
+
+  /**
+   * Resolve a path from the innermost scope outwards, so fields of enclosing items stay reachable
+   */
+  private lookup(path: string, scopes: Scope[]): unknown {
+    const current = scopes[scopes.length - 1];
+    if (path.startsWith('@')) {
+      return current.data[path.slice(1)];
+    }
+
+    const [head, ...rest] = path.split('.');
+    let value: unknown;
+    if (head === 'this') {
+      value = current.context;
+    } else {
+      const scope = [...scopes].reverse().find(s => typeof s.context === 'object' && s.context !== null && head in s.context);
+      value = scope ? (scope.context as Record<string, unknown>)[head] : undefined;
+    }
+
+    for (const key of rest) {
+      value = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value;
+  }
+
+  private isTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+  }
+
+  private toText(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
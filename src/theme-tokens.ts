@@ -0,0 +1,245 @@
+/**
+ * Extracts the theme variables (design tokens) and cross-references their usage in style classes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { TypeScriptParser } from './ts-parser.js';
+import { SourceExtractor } from './source-extractor.js';
+import { ComponentDoc, StyleValue, ThemeToken, ThemeTokenType, TokenCatalog, TokenConsumer } from './types.js';
+
+const THEME_FILE_NAMES = ['theme.variables.ts', 'theme.variables.tsx', 'theme.variables.js.map'];
+
+type TokenValue = string | number | boolean | null;
+
+export class ThemeTokenExtractor {
+  /**
+   * Locate the theme variables definition: in or under the components tree, or in the styles folder
+   * next to it, unless configured explicitly
+   */
+  static findThemeVariablesFile(componentsPath: string, configuredPath?: string): string | null {
+    if (configuredPath) {
+      return fs.existsSync(configuredPath) ? configuredPath : null;
+    }
+
+    // Components usually live next to the styles folder (src/components + src/styles)
+    const roots = [componentsPath, path.dirname(componentsPath)];
+    for (const root of roots) {
+      for (const fileName of THEME_FILE_NAMES) {
+        const candidate = path.join(root, 'styles', fileName);
+        if (fs.existsSync(candidate)) {
+          return candidate;
+        }
+      }
+    }
+
+    // Anywhere else in the parent may be unrelated code (or a home directory); that needs themeVariablesPath
+    return this.searchForThemeFile(componentsPath);
+  }
+
+  /**
+   * Read token names and default values from a theme variables class or object literal
+   */
+  static extractTokens(sourceCode: string): Array<{ name: string; value: TokenValue; alias?: string }> {
+    const sourceFile = TypeScriptParser.createSourceFile(sourceCode);
+    const tokens: Array<{ name: string; value: TokenValue; alias?: string }> = [];
+
+    const readValue = (expression: ts.Expression): { value: TokenValue; alias?: string } => {
+      while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+        expression = expression.expression;
+      }
+
+      if (ts.isStringLiteralLike(expression)) return { value: expression.text };
+      if (ts.isNumericLiteral(expression)) return { value: Number(expression.text) };
+      if (expression.kind === ts.SyntaxKind.TrueKeyword) return { value: true };
+      if (expression.kind === ts.SyntaxKind.FalseKeyword) return { value: false };
+      if (expression.kind === ts.SyntaxKind.NullKeyword) return { value: null };
+
+      // primaryColor = this.brandColor -> alias of brandColor
+      if (ts.isPropertyAccessExpression(expression) && expression.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        const alias = expression.name.text;
+        const target = tokens.find(t => t.name === alias);
+        return { value: target ? target.value : expression.getText(sourceFile), alias };
+      }
+
+      return { value: expression.getText(sourceFile) };
+    };
+
+    const addToken = (name: string, initializer: ts.Expression) => {
+      let expression = initializer;
+      while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+        expression = expression.expression;
+      }
+
+      // Nested groups (fonts = { size: 14 }) become dotted token names, matching themeVariables.fonts.size
+      if (ts.isObjectLiteralExpression(expression)) {
+        for (const property of expression.properties) {
+          if (ts.isPropertyAssignment(property)) {
+            const key = ts.isStringLiteral(property.name) ? property.name.text : property.name.getText(sourceFile);
+            addToken(`${name}.${key}`, property.initializer);
+          }
+        }
+        return;
+      }
+
+      tokens.push({ name, ...readValue(expression) });
+    };
+
+    const visit = (node: ts.Node) => {
+      // class ThemeVariables { primaryColor = '#...'; }
+      if (ts.isClassDeclaration(node) && node.name && /ThemeVariables$/i.test(node.name.text)) {
+        node.members.forEach((member) => {
+          const isStatic = ts.canHaveModifiers(member) &&
+            ts.getModifiers(member)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword);
+          if (ts.isPropertyDeclaration(member) && member.initializer && !isStatic) {
+            addToken(member.name.getText(sourceFile), member.initializer);
+          }
+        });
+        return;
+      }
+
+      // const themeVariables = { primaryColor: '#...' }
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && /themeVariables$/i.test(node.name.text) &&
+          node.initializer && ts.isObjectLiteralExpression(node.initializer)) {
+        node.initializer.properties.forEach((property) => {
+          if (ts.isPropertyAssignment(property)) {
+            const key = ts.isStringLiteral(property.name) ? property.name.text : property.name.getText(sourceFile);
+            addToken(key, property.initializer);
+          }
+        });
+        return;
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return tokens;
+  }
+
+  /**
+   * Build the token catalog: every declared token plus every token referenced by a style class
+   */
+  static buildCatalog(docs: ComponentDoc[], themeFile: string | null, rootPath: string): TokenCatalog {
+    const tokens = new Map<string, ThemeToken>();
+
+    if (themeFile) {
+      const source = themeFile.endsWith('.js.map')
+        ? SourceExtractor.extractSourceContent(themeFile)
+        : fs.readFileSync(themeFile, 'utf-8');
+
+      for (const token of this.extractTokens(source || '')) {
+        tokens.set(token.name, {
+          name: token.name,
+          value: token.value,
+          type: this.inferTokenType(token.name, token.value),
+          alias: token.alias,
+          declared: true,
+          consumers: [],
+        });
+      }
+    }
+
+    const visitDoc = (doc: ComponentDoc) => {
+      for (const style of doc.styles) {
+        this.collectTokenRefs(style.properties ?? {}, []).forEach(({ token, path: refPath }) => {
+          let entry = tokens.get(token);
+          if (!entry) {
+            entry = { name: token, type: this.inferTokenType(token), declared: false, consumers: [] };
+            tokens.set(token, entry);
+          }
+
+          const consumer: TokenConsumer = {
+            component: doc.componentName,
+            className: style.className,
+            part: refPath.length > 1 ? refPath[0] : '',
+            property: refPath.length > 1 ? refPath.slice(1).join('.') : refPath.join('.'),
+          };
+          entry.consumers.push(consumer);
+        });
+      }
+      doc.children?.forEach(visitDoc);
+    };
+    docs.forEach(visitDoc);
+
+    const undeclared = [...tokens.values()].filter(t => !t.declared).length;
+    if (undeclared > 0) {
+      console.warn(`${undeclared} theme tokens are used by styles but not declared${themeFile ? ` in ${themeFile}` : ''}`);
+    }
+
+    return {
+      source: themeFile ? path.relative(rootPath, themeFile) : undefined,
+      tokens: [...tokens.values()],
+    };
+  }
+
+  /**
+   * Guess the token category from its name and value
+   */
+  static inferTokenType(name: string, value?: TokenValue): ThemeTokenType {
+    const leaf = name.split('.').pop() || name;
+
+    if (typeof value === 'string' && /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla)\(.*\)|transparent)$/i.test(value.trim())) {
+      return 'color';
+    }
+    if (/colou?r|bg$|background/i.test(leaf)) {
+      return 'color';
+    }
+    if (/font|lineheight|letterspacing|texttransform/i.test(name)) {
+      return 'font';
+    }
+    if (/padding|margin|spacing|gap|inset/i.test(leaf)) {
+      return 'spacing';
+    }
+    if (/width|height|size|radius/i.test(leaf)) {
+      return 'size';
+    }
+    return 'other';
+  }
+
+  /**
+   * Find { token } references in a style object, with the path that leads to them
+   */
+  private static collectTokenRefs(value: StyleValue, refPath: string[]): Array<{ token: string; path: string[] }> {
+    if (value === null || typeof value !== 'object') {
+      return [];
+    }
+
+    if (Array.isArray(value)) {
+      return value.flatMap((item, index) => this.collectTokenRefs(item, [...refPath, String(index)]));
+    }
+
+    if ('token' in value && typeof value.token === 'string') {
+      return [{ token: value.token, path: refPath }];
+    }
+
+    return Object.entries(value).flatMap(([key, item]) => this.collectTokenRefs(item as StyleValue, [...refPath, key]));
+  }
+
+  /**
+   * Recursively search for a theme variables file, skipping node_modules
+   */
+  private static searchForThemeFile(dir: string): string | null {
+    try {
+      const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        if (entry.isFile() && THEME_FILE_NAMES.includes(entry.name)) {
+          return path.join(dir, entry.name);
+        }
+      }
+
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          const found = this.searchForThemeFile(path.join(dir, entry.name));
+          if (found) return found;
+        }
+      }
+    } catch (error) {
+      // Ignore permission errors, etc.
+    }
+
+    return null;
+  }
+}
@@ -3,7 +3,41 @@
  */
 
 import * as ts from 'typescript';
-import { PropInfo, MethodInfo, ParameterInfo } from './types.js';
+import { PropInfo, MethodInfo, ParameterInfo, JsDocInfo, DefaultValueInfo, StyleRule, StyleValue } from './types.js';
+
+/**
+ * Utility types whose first type argument carries the inherited props
+ */
+const UTILITY_TYPES = ['Omit', 'Pick', 'Partial', 'Required', 'Readonly'];
+
+/**
+ * What utility types around a base type do to its props: Omit/Pick keys, and the optionality
+ * set by Partial (true) or Required (false). Keys that aren't string literals can't be read without
+ * the type checker, so such an Omit or Pick keeps every prop.
+ */
+export interface BaseTypeFilter {
+  omit?: string[];
+  pick?: string[];
+  optional?: boolean;
+}
+
+interface StyleContext {
+  sourceFile: ts.SourceFile;
+  themeVariables: Set<string>;
+  locals: Map<string, ts.Expression>;
+  depth: number;
+}
+
+interface FunctionComponent {
+  name: string;
+  fn: ts.FunctionLikeDeclaration;
+  handleType?: ts.TypeNode;
+  /**
+   * Source text of the props type, when the component declares one
+   */
+  propsType?: string;
+  exported?: 'default' | 'named';
+}
 
 export class TypeScriptParser {
   /**
@@ -19,15 +53,117 @@ export class TypeScriptParser {
   }
 
   /**
-   * Extract props from a Props class or interface
+   * Read the leading JSDoc of a declaration (description, @default, @deprecated, @since, @example, @param)
+   */
+  static extractJsDoc(node: ts.Node): JsDocInfo {
+    const info: JsDocInfo = {};
+    const jsDocs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+
+    // The comment closest to the declaration wins
+    const jsDoc = jsDocs[jsDocs.length - 1];
+    if (!jsDoc) {
+      return info;
+    }
+
+    const description = ts.getTextOfJSDocComment(jsDoc.comment)?.trim();
+    if (description) {
+      info.description = description;
+    }
+
+    for (const tag of jsDoc.tags ?? []) {
+      const text = ts.getTextOfJSDocComment(tag.comment)?.trim();
+
+      switch (tag.tagName.text) {
+        case 'default':
+        case 'defaultValue':
+          if (text) info.defaultValue = text;
+          break;
+        case 'deprecated':
+          info.deprecated = true;
+          if (text) info.deprecationMessage = text;
+          break;
+        case 'since':
+          if (text) info.since = text;
+          break;
+        case 'example':
+          if (text) {
+            info.examples = [...(info.examples ?? []), text];
+          }
+          break;
+        case 'param':
+          if (ts.isJSDocParameterTag(tag) && text) {
+            info.params = { ...info.params, [tag.name.getText()]: text.replace(/^-\s*/, '') };
+          }
+          break;
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * JSDoc fields shared by PropInfo and MethodInfo
+   */
+  static jsDocFields(jsDoc: JsDocInfo): Pick<PropInfo, 'description' | 'deprecated' | 'deprecationMessage' | 'since' | 'examples'> {
+    return {
+      description: jsDoc.description,
+      deprecated: jsDoc.deprecated,
+      deprecationMessage: jsDoc.deprecationMessage,
+      since: jsDoc.since,
+      examples: jsDoc.examples,
+    };
+  }
+
+  /**
+   * Clean up a property initializer for display (e.g. "null as any" -> "null")
    */
-  static extractProps(sourceCode: string): {
+  static cleanDefaultValue(initText: string): string {
+    if (initText === 'null as any') {
+      return 'null';
+    }
+    if (initText.endsWith(' as any')) {
+      return initText.replace(' as any', '');
+    }
+    return initText;
+  }
+
+  /**
+   * Extract props from a Props class, interface or type alias
+   * @param sourceCode - Source to parse
+   * @param name - Only read the declaration with this name (otherwise the last *Props declaration wins)
+   */
+  static extractProps(sourceCode: string, name?: string): {
     props: PropInfo[];
     className: string;
     baseClass?: string;
+    baseClasses: string[];
+    /**
+     * Utility types wrapping a base type in the extends clause (interface X extends Omit<BaseProps, 'styles'>)
+     */
+    baseTypeFilters: Record<string, BaseTypeFilter>;
   } | null {
     const sourceFile = this.createSourceFile(sourceCode);
-    let result: { props: PropInfo[]; className: string; baseClass?: string } | null = null;
+    let result: {
+      props: PropInfo[];
+      className: string;
+      baseClass?: string;
+      baseClasses: string[];
+      baseTypeFilters: Record<string, BaseTypeFilter>;
+    } | null = null;
+
+    const matches = (declarationName: string) => name ? declarationName === name : declarationName.endsWith('Props');
+
+    // Declarations sharing a name (interface merging, class + interface) add up; a new name replaces the result
+    const addDeclaration = (className: string, props: PropInfo[], baseClasses: string[], baseTypeFilters: Record<string, BaseTypeFilter>) => {
+      if (result && result.className === className) {
+        result.props.push(...props.filter(prop => !result!.props.some(existing => existing.name === prop.name)));
+        result.baseClasses.push(...baseClasses.filter(base => !result!.baseClasses.includes(base)));
+        result.baseClass = result.baseClasses[0];
+        result.baseTypeFilters = { ...baseTypeFilters, ...result.baseTypeFilters };
+      } else {
+        result = { props, className, baseClass: baseClasses[0], baseClasses, baseTypeFilters };
+      }
+    };
 
     const visit = (node: ts.Node) => {
       // Handle class declarations (old format)
@@ -35,21 +171,8 @@ export class TypeScriptParser {
         const className = node.name.text;
 
         // Only process Props classes
-        if (className.endsWith('Props')) {
+        if (matches(className)) {
           const props: PropInfo[] = [];
-          let baseClass: string | undefined;
-
-          // Get base class
-          if (node.heritageClauses) {
-            for (const heritage of node.heritageClauses) {
-              if (heritage.token === ts.SyntaxKind.ExtendsKeyword) {
-                const baseType = heritage.types[0];
-                if (ts.isExpressionWithTypeArguments(baseType)) {
-                  baseClass = baseType.expression.getText(sourceFile);
-                }
-              }
-            }
-          }
 
           // Extract properties
           node.members.forEach((member) => {
@@ -66,28 +189,25 @@ export class TypeScriptParser {
 
               // Get default value
               if (member.initializer) {
-                let initText = member.initializer.getText(sourceFile);
-                // Clean up "null as any" patterns
-                if (initText === 'null as any') {
-                  defaultValue = 'null';
-                } else if (initText.endsWith(' as any')) {
-                  defaultValue = initText.replace(' as any', '');
-                } else {
-                  defaultValue = initText;
-                }
+                defaultValue = this.cleanDefaultValue(member.initializer.getText(sourceFile));
               }
 
+              const jsDoc = this.extractJsDoc(member);
+
               props.push({
                 name: propName,
                 type: propType,
                 optional,
-                defaultValue,
+                defaultValue: defaultValue ?? jsDoc.defaultValue,
+                defaultSource: defaultValue ? 'initializer' : jsDoc.defaultValue ? 'jsdoc' : undefined,
                 inherited: false,
+                ...this.jsDocFields(jsDoc),
               });
             }
           });
 
-          result = { props, className, baseClass };
+          const baseTypeFilters: Record<string, BaseTypeFilter> = {};
+          addDeclaration(className, props, this.getHeritageNames(node, sourceFile, baseTypeFilters), baseTypeFilters);
         }
       }
 
@@ -96,85 +216,202 @@ export class TypeScriptParser {
         const interfaceName = node.name.text;
 
         // Only process Props interfaces (WmButtonProps, etc.)
-        if (interfaceName.endsWith('Props')) {
-          const props: PropInfo[] = [];
-          let baseClass: string | undefined;
-
-          // Get base interface (extends)
-          if (node.heritageClauses) {
-            for (const heritage of node.heritageClauses) {
-              if (heritage.token === ts.SyntaxKind.ExtendsKeyword) {
-                const baseType = heritage.types[0];
-                if (ts.isExpressionWithTypeArguments(baseType)) {
-                  baseClass = baseType.expression.getText(sourceFile);
-                }
-              }
-            }
+        if (matches(interfaceName)) {
+          const baseTypeFilters: Record<string, BaseTypeFilter> = {};
+          addDeclaration(
+            interfaceName,
+            this.extractSignatureProps(node.members, sourceFile),
+            this.getHeritageNames(node, sourceFile, baseTypeFilters),
+            baseTypeFilters
+          );
+        }
+      }
+
+      // Handle type alias declarations (e.g., type WmButtonProps = {...} or BaseProps & {...})
+      if (ts.isTypeAliasDeclaration(node) && node.name) {
+        const typeName = node.name.text;
+
+        // Only process Props types
+        if (matches(typeName)) {
+          const literals: ts.TypeLiteralNode[] = [];
+          const baseClasses: string[] = [];
+          const baseTypeFilters: Record<string, BaseTypeFilter> = {};
+          this.collectTypeParts(node.type, sourceFile, literals, baseClasses, baseTypeFilters);
+
+          // A bare alias of another type only counts when asked for by name
+          if (literals.length > 0 || (name && baseClasses.length > 0)) {
+            addDeclaration(
+              typeName,
+              literals.flatMap(literal => this.extractSignatureProps(literal.members, sourceFile)),
+              baseClasses,
+              baseTypeFilters
+            );
           }
+        }
+      }
 
-          // Extract properties from interface
-          node.members.forEach((member) => {
-            if (ts.isPropertySignature(member) && member.name) {
-              const propName = member.name.getText(sourceFile);
-              const optional = !!member.questionToken;
-              let propType = 'any';
+      ts.forEachChild(node, visit);
+    };
 
-              // Get type
-              if (member.type) {
-                propType = member.type.getText(sourceFile);
-              }
+    visit(sourceFile);
+    return result;
+  }
 
-              props.push({
-                name: propName,
-                type: propType,
-                optional,
-                inherited: false,
-              });
-            }
-          });
+  /**
+   * Props of interface / type literal members
+   */
+  private static extractSignatureProps(members: ts.NodeArray<ts.TypeElement>, sourceFile: ts.SourceFile): PropInfo[] {
+    const props: PropInfo[] = [];
+
+    members.forEach((member) => {
+      if (ts.isPropertySignature(member) && member.name) {
+        const propName = member.name.getText(sourceFile);
+        const optional = !!member.questionToken;
+        let propType = 'any';
 
-          result = { props, className: interfaceName, baseClass };
+        // Get type
+        if (member.type) {
+          propType = member.type.getText(sourceFile);
         }
+
+        const jsDoc = this.extractJsDoc(member);
+
+        props.push({
+          name: propName,
+          type: propType,
+          optional,
+          defaultValue: jsDoc.defaultValue,
+          defaultSource: jsDoc.defaultValue ? 'jsdoc' : undefined,
+          inherited: false,
+          ...this.jsDocFields(jsDoc),
+        });
       }
+    });
 
-      // Handle type alias declarations (e.g., type WmButtonProps = {...})
-      if (ts.isTypeAliasDeclaration(node) && node.name) {
-        const typeName = node.name.text;
+    return props;
+  }
 
-        // Only process Props types
-        if (typeName.endsWith('Props') && ts.isTypeLiteralNode(node.type)) {
-          const props: PropInfo[] = [];
+  /**
+   * Combine the filter of a utility type with the one of the utility types around it:
+   * keys are omitted by either and picked by both, and the outer optionality wins
+   */
+  static combineBaseTypeFilters(outer: BaseTypeFilter | undefined, inner: BaseTypeFilter | undefined): BaseTypeFilter | undefined {
+    if (!outer || !inner) {
+      return outer ?? inner;
+    }
 
-          // Extract properties from type literal
-          node.type.members.forEach((member) => {
-            if (ts.isPropertySignature(member) && member.name) {
-              const propName = member.name.getText(sourceFile);
-              const optional = !!member.questionToken;
-              let propType = 'any';
+    const combined: BaseTypeFilter = { optional: outer.optional ?? inner.optional };
+    if (outer.omit || inner.omit) {
+      combined.omit = [...new Set([...outer.omit ?? [], ...inner.omit ?? []])];
+    }
+    if (outer.pick || inner.pick) {
+      combined.pick = outer.pick && inner.pick ? outer.pick.filter(key => inner.pick!.includes(key)) : outer.pick ?? inner.pick;
+    }
+    return combined;
+  }
 
-              // Get type
-              if (member.type) {
-                propType = member.type.getText(sourceFile);
-              }
+  /**
+   * Every type named in the extends clause of a class or interface
+   * @param filters - Receives the utility types wrapping each named type
+   */
+  private static getHeritageNames(
+    node: ts.ClassDeclaration | ts.InterfaceDeclaration,
+    sourceFile: ts.SourceFile,
+    filters: Record<string, BaseTypeFilter>
+  ): string[] {
+    const names: string[] = [];
 
-              props.push({
-                name: propName,
-                type: propType,
-                optional,
-                inherited: false,
-              });
-            }
-          });
+    for (const heritage of node.heritageClauses ?? []) {
+      if (heritage.token !== ts.SyntaxKind.ExtendsKeyword) continue;
 
-          result = { props, className: typeName };
+      for (const baseType of heritage.types) {
+        // interface X extends Omit<BaseProps, 'name'> - the props come from the type argument
+        const utility = baseType.expression.getText(sourceFile);
+        const typeArgument = baseType.typeArguments?.[0];
+        if (UTILITY_TYPES.includes(utility) && typeArgument) {
+          const filter = this.getUtilityFilter(utility, baseType.typeArguments?.[1]);
+          this.collectTypeParts(typeArgument, sourceFile, [], names, filters, filter);
+        } else {
+          names.push(baseType.expression.getText(sourceFile));
         }
       }
+    }
 
-      ts.forEachChild(node, visit);
-    };
+    return names;
+  }
 
-    visit(sourceFile);
-    return result;
+  /**
+   * Split a type alias into its literal members and referenced base types:
+   * BaseProps & Partial<InputProps> & { caption?: string }
+   * @param filters - Receives the utility types wrapping each base type
+   * @param filter - Utility types around typeNode
+   */
+  private static collectTypeParts(
+    typeNode: ts.TypeNode,
+    sourceFile: ts.SourceFile,
+    literals: ts.TypeLiteralNode[],
+    baseClasses: string[],
+    filters: Record<string, BaseTypeFilter>,
+    filter?: BaseTypeFilter
+  ): void {
+    if (ts.isTypeLiteralNode(typeNode)) {
+      literals.push(typeNode);
+    } else if (ts.isIntersectionTypeNode(typeNode)) {
+      typeNode.types.forEach(part => this.collectTypeParts(part, sourceFile, literals, baseClasses, filters, filter));
+    } else if (ts.isParenthesizedTypeNode(typeNode)) {
+      this.collectTypeParts(typeNode.type, sourceFile, literals, baseClasses, filters, filter);
+    } else if (ts.isTypeReferenceNode(typeNode)) {
+      const typeName = typeNode.typeName.getText(sourceFile);
+      if (UTILITY_TYPES.includes(typeName) && typeNode.typeArguments?.length) {
+        const inner = this.getUtilityFilter(typeName, typeNode.typeArguments[1]);
+        this.collectTypeParts(typeNode.typeArguments[0], sourceFile, literals, baseClasses, filters,
+          this.combineBaseTypeFilters(filter, inner));
+      } else if (!baseClasses.includes(typeName)) {
+        baseClasses.push(typeName);
+        if (filter) {
+          filters[typeName] = filter;
+        }
+      }
+    }
+  }
+
+  /**
+   * What one utility type does to the props of its first type argument
+   */
+  private static getUtilityFilter(utility: string, keys: ts.TypeNode | undefined): BaseTypeFilter | undefined {
+    switch (utility) {
+      case 'Omit': {
+        const omit = keys && this.getKeyLiterals(keys);
+        return omit ? { omit } : undefined;
+      }
+      case 'Pick': {
+        const pick = keys && this.getKeyLiterals(keys);
+        return pick ? { pick } : undefined;
+      }
+      case 'Partial':
+        return { optional: true };
+      case 'Required':
+        return { optional: false };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 'a' or 'a' | 'b'; null for keys only the type checker can resolve (keyof X, an alias)
+   */
+  private static getKeyLiterals(typeNode: ts.TypeNode): string[] | null {
+    const members = ts.isUnionTypeNode(typeNode) ? typeNode.types : [typeNode];
+    const keys: string[] = [];
+
+    for (const member of members) {
+      if (!ts.isLiteralTypeNode(member) || !ts.isStringLiteral(member.literal)) {
+        return null;
+      }
+      keys.push(member.literal.text);
+    }
+
+    return keys;
   }
 
   /**
@@ -229,31 +466,17 @@ export class TypeScriptParser {
                 returnType = member.type.getText(sourceFile);
               }
 
-              // Get parameters
-              const parameters: ParameterInfo[] = [];
-              member.parameters.forEach((param) => {
-                if (ts.isIdentifier(param.name)) {
-                  const paramName = param.name.text;
-                  const paramOptional = !!param.questionToken;
-                  let paramType = 'any';
-
-                  if (param.type) {
-                    paramType = param.type.getText(sourceFile);
-                  }
+              const jsDoc = this.extractJsDoc(member);
 
-                  parameters.push({
-                    name: paramName,
-                    type: paramType,
-                    optional: paramOptional,
-                  });
-                }
-              });
+              // Get parameters
+              const parameters = this.extractParameters(member.parameters, sourceFile, jsDoc);
 
               methods.push({
                 name: methodName,
                 visibility,
                 returnType,
                 parameters,
+                ...this.jsDocFields(jsDoc),
               });
             }
           });
@@ -266,19 +489,512 @@ export class TypeScriptParser {
     };
 
     visit(sourceFile);
-    return result;
+    return result ?? this.extractFunctionComponentMethods(sourceFile);
+  }
+
+  /**
+   * Extract runtime default values from component source:
+   * - destructuring defaults of function components: ({ caption = 'Button' }) or const { caption = 'Button' } = props
+   * - static defaultProps = {...} and Component.defaultProps = {...}
+   * - the props class instantiated in super(props, DEFAULT_CLASS, new WmButtonProps())
+   * @param propsTypeName - Props declaration being documented; picks the function component whose defaults apply
+   */
+  static extractDefaultValues(sourceCode: string, propsTypeName?: string): {
+    defaults: DefaultValueInfo[];
+    constructorPropsClass?: string;
+  } {
+    const sourceFile = this.createSourceFile(sourceCode);
+    const defaults: DefaultValueInfo[] = [];
+    let constructorPropsClass: string | undefined;
+
+    const addFromBindingPattern = (pattern: ts.ObjectBindingPattern) => {
+      pattern.elements.forEach((element) => {
+        if (element.dotDotDotToken || !element.initializer) return;
+        const name = (element.propertyName ?? element.name).getText(sourceFile);
+        defaults.push({
+          name,
+          value: this.cleanDefaultValue(element.initializer.getText(sourceFile)),
+          source: 'destructuring',
+        });
+      });
+    };
+
+    const addFromObjectLiteral = (literal: ts.ObjectLiteralExpression) => {
+      literal.properties.forEach((property) => {
+        if (ts.isPropertyAssignment(property)) {
+          defaults.push({
+            name: property.name.getText(sourceFile),
+            value: this.cleanDefaultValue(property.initializer.getText(sourceFile)),
+            source: 'defaultProps',
+          });
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          defaults.push({ name: property.name.text, value: property.name.text, source: 'defaultProps' });
+        }
+      });
+    };
+
+    // Destructuring defaults of the documented function component
+    for (const component of this.findDocumentedComponents(sourceFile, propsTypeName)) {
+      const propsParam = component.fn.parameters[0];
+      if (!propsParam) continue;
+
+      if (ts.isObjectBindingPattern(propsParam.name)) {
+        addFromBindingPattern(propsParam.name);
+      } else if (ts.isIdentifier(propsParam.name) && component.fn.body) {
+        const propsName = propsParam.name.text;
+        const visit = (node: ts.Node) => {
+          if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) &&
+              node.initializer && ts.isIdentifier(node.initializer) && node.initializer.text === propsName) {
+            addFromBindingPattern(node.name);
+          }
+          ts.forEachChild(node, visit);
+        };
+        visit(component.fn.body);
+      }
+    }
+
+    const visit = (node: ts.Node) => {
+      // static defaultProps = { ... }
+      if (ts.isPropertyDeclaration(node) && node.name.getText(sourceFile) === 'defaultProps' &&
+          node.modifiers?.some(m => m.kind === ts.SyntaxKind.StaticKeyword) &&
+          node.initializer && ts.isObjectLiteralExpression(node.initializer)) {
+        addFromObjectLiteral(node.initializer);
+      }
+
+      // WmButton.defaultProps = { ... }
+      if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isPropertyAccessExpression(node.left) && node.left.name.text === 'defaultProps' &&
+          ts.isObjectLiteralExpression(node.right)) {
+        addFromObjectLiteral(node.right);
+      }
+
+      // super(props, DEFAULT_CLASS, new WmButtonProps(), new WmButtonState())
+      if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.SuperKeyword) {
+        for (const arg of node.arguments) {
+          if (ts.isNewExpression(arg) && ts.isIdentifier(arg.expression) && arg.expression.text.endsWith('Props')) {
+            constructorPropsClass = arg.expression.text;
+          }
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return { defaults, constructorPropsClass };
+  }
+
+  /**
+   * Extract parameter info from a parameter list
+   * Types missing on the implementation are taken from the fallback (e.g. the ref handle interface)
+   */
+  private static extractParameters(
+    params: ts.NodeArray<ts.ParameterDeclaration>,
+    sourceFile: ts.SourceFile,
+    jsDoc: JsDocInfo,
+    fallback: ParameterInfo[] = []
+  ): ParameterInfo[] {
+    const parameters: ParameterInfo[] = [];
+
+    params.forEach((param, index) => {
+      if (ts.isIdentifier(param.name)) {
+        const paramName = param.name.text;
+        const paramOptional = !!param.questionToken || !!param.initializer;
+        let paramType = fallback[index]?.type ?? 'any';
+
+        if (param.type) {
+          paramType = param.type.getText(sourceFile);
+        }
+
+        parameters.push({
+          name: paramName,
+          type: paramType,
+          optional: paramOptional,
+          description: jsDoc.params?.[paramName] ?? fallback[index]?.description,
+        });
+      }
+    });
+
+    return parameters;
+  }
+
+  /**
+   * Extract the public method surface of a function component: the object returned
+   * from useImperativeHandle inside a plain, React.forwardRef or React.memo wrapped component
+   */
+  private static extractFunctionComponentMethods(sourceFile: ts.SourceFile): {
+    methods: MethodInfo[];
+    className: string;
+  } | null {
+    const components = this.findFunctionComponents(sourceFile);
+
+    for (const component of components) {
+      const handleCall = this.findImperativeHandleCall(component.fn);
+      if (!handleCall) {
+        continue;
+      }
+
+      const handleType = handleCall.typeArguments?.[0] ?? component.handleType;
+      const handleMembers = handleType ? this.extractHandleMembers(sourceFile, handleType) : new Map<string, MethodInfo>();
+      const handleObject = handleCall.arguments[1] ? this.getReturnedObject(handleCall.arguments[1]) : null;
+      const methods: MethodInfo[] = [];
+
+      for (const member of handleObject?.properties ?? []) {
+        if (!member.name || ts.isSpreadAssignment(member)) {
+          continue;
+        }
+
+        const methodName = member.name.getText(sourceFile);
+        const declared = handleMembers.get(methodName);
+        let fn: ts.FunctionLikeDeclaration | null = null;
+
+        if (ts.isMethodDeclaration(member)) {
+          fn = member;
+        } else if (ts.isPropertyAssignment(member)) {
+          fn = this.resolveFunction(member.initializer, component.fn);
+        } else if (ts.isShorthandPropertyAssignment(member)) {
+          fn = this.resolveFunction(member.name, component.fn);
+        }
+
+        // JSDoc on the implementation wins, the handle interface fills the gaps
+        const jsDoc = this.extractJsDoc(member);
+        const docFields = this.jsDocFields(jsDoc);
+
+        methods.push({
+          name: methodName,
+          visibility: 'public',
+          returnType: fn?.type ? fn.type.getText(sourceFile) : declared?.returnType ?? 'void',
+          parameters: fn
+            ? this.extractParameters(fn.parameters, sourceFile, jsDoc, declared?.parameters)
+            : declared?.parameters ?? [],
+          description: docFields.description ?? declared?.description,
+          deprecated: docFields.deprecated ?? declared?.deprecated,
+          deprecationMessage: docFields.deprecationMessage ?? declared?.deprecationMessage,
+          since: docFields.since ?? declared?.since,
+          examples: docFields.examples ?? declared?.examples,
+        });
+      }
+
+      // Handle members declared on the ref type but assigned outside the object literal
+      for (const declared of handleMembers.values()) {
+        if (!methods.some(m => m.name === declared.name)) {
+          methods.push(declared);
+        }
+      }
+
+      return { methods, className: component.name };
+    }
+
+    return components.length > 0 ? { methods: [], className: components[0].name } : null;
+  }
+
+  /**
+   * Find function components: plain functions/arrows with a capitalised name, optionally wrapped
+   * in forwardRef/memo, including `export default forwardRef(...)`
+   */
+  private static findFunctionComponents(sourceFile: ts.SourceFile): FunctionComponent[] {
+    const components: FunctionComponent[] = [];
+    const defaultExports = new Set<string>();
+
+    // Unwrap forwardRef(...) / memo(...) / React.memo(React.forwardRef(...)) down to the render function
+    const unwrap = (expression: ts.Expression, handleType?: ts.TypeNode, propsType?: ts.TypeNode): Omit<FunctionComponent, 'name'> | null => {
+      if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+        return unwrap(expression.expression, handleType, propsType);
+      }
+      if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+        return { fn: expression, handleType, propsType: this.getPropsTypeText(expression, propsType) };
+      }
+      if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+        const callee = ts.isPropertyAccessExpression(expression.expression)
+          ? expression.expression.name.text
+          : expression.expression.getText(sourceFile);
+        if (callee === 'forwardRef') {
+          return unwrap(expression.arguments[0], expression.typeArguments?.[0], expression.typeArguments?.[1] ?? propsType);
+        }
+        if (callee === 'memo') {
+          return unwrap(expression.arguments[0], handleType, propsType);
+        }
+      }
+      if (ts.isIdentifier(expression)) {
+        const fn = this.findLocalFunction(sourceFile, expression.text);
+        if (fn) return { fn, handleType, propsType: this.getPropsTypeText(fn, propsType) };
+      }
+      return null;
+    };
+
+    const exportOf = (node: ts.Node): FunctionComponent['exported'] => {
+      const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) ?? [] : [];
+      if (!modifiers.some(m => m.kind === ts.SyntaxKind.ExportKeyword)) return undefined;
+      return modifiers.some(m => m.kind === ts.SyntaxKind.DefaultKeyword) ? 'default' : 'named';
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer && /^[A-Z]/.test(node.name.text)) {
+        // const Button: React.FC<ButtonProps> = ...
+        const unwrapped = unwrap(node.initializer, undefined, node.type);
+        const statement = node.parent.parent;
+        if (unwrapped) components.push({ name: node.name.text, ...unwrapped, exported: exportOf(statement) });
+      } else if (ts.isFunctionDeclaration(node) && node.name && /^[A-Z]/.test(node.name.text)) {
+        components.push({ name: node.name.text, fn: node, propsType: this.getPropsTypeText(node), exported: exportOf(node) });
+      } else if (ts.isExportAssignment(node)) {
+        if (ts.isIdentifier(node.expression)) {
+          defaultExports.add(node.expression.text);
+        }
+        const unwrapped = unwrap(node.expression);
+        if (unwrapped && !ts.isIdentifier(node.expression)) {
+          const fnName = ts.isFunctionExpression(unwrapped.fn) ? unwrapped.fn.name?.text : undefined;
+          components.push({ name: fnName || 'default', ...unwrapped, exported: 'default' });
+        }
+      } else if (ts.isExportSpecifier(node) && node.name.text === 'default') {
+        // export { Button as default }
+        defaultExports.add((node.propertyName ?? node.name).text);
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    // export default Button, declared earlier in the file
+    for (const component of components) {
+      if (defaultExports.has(component.name)) {
+        component.exported = 'default';
+      }
+    }
+    return components;
+  }
+
+  /**
+   * The components whose props are being documented: the one typed with the props declaration,
+   * else the default export, else the named exports, else the only component in the file.
+   * Helper components in the same file (icons, list items) are left out.
+   */
+  private static findDocumentedComponents(sourceFile: ts.SourceFile, propsTypeName?: string): FunctionComponent[] {
+    const components = this.findFunctionComponents(sourceFile);
+
+    if (propsTypeName) {
+      const pattern = new RegExp(`\\b${propsTypeName.replace(/[$]/g, '\\$&')}\\b`);
+      const typed = components.filter(component => component.propsType && pattern.test(component.propsType));
+      if (typed.length > 0) return typed;
+    }
+
+    const defaults = components.filter(component => component.exported === 'default');
+    if (defaults.length > 0) return defaults;
+
+    const named = components.filter(component => component.exported === 'named');
+    if (named.length > 0) return named;
+
+    return components.length === 1 ? components : [];
+  }
+
+  /**
+   * Text of the props type of a render function: its first parameter's annotation, or the one
+   * given by forwardRef<Handle, Props> or a React.FC<Props> annotation
+   */
+  private static getPropsTypeText(fn: ts.FunctionLikeDeclaration, declared?: ts.TypeNode): string | undefined {
+    return fn.parameters[0]?.type?.getText() ?? declared?.getText();
+  }
+
+  /**
+   * Find the useImperativeHandle / React.useImperativeHandle call in a component body
+   */
+  private static findImperativeHandleCall(fn: ts.FunctionLikeDeclaration): ts.CallExpression | null {
+    let found: ts.CallExpression | null = null;
+
+    const visit = (node: ts.Node) => {
+      if (found) return;
+      if (ts.isCallExpression(node)) {
+        const callee = node.expression;
+        if ((ts.isIdentifier(callee) && callee.text === 'useImperativeHandle') ||
+            (ts.isPropertyAccessExpression(callee) && callee.name.text === 'useImperativeHandle')) {
+          found = node;
+          return;
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    if (fn.body) visit(fn.body);
+    return found;
+  }
+
+  /**
+   * Object literal produced by the useImperativeHandle factory: `() => ({ ... })` or `() => { return { ... }; }`
+   */
+  private static getReturnedObject(factory: ts.Expression): ts.ObjectLiteralExpression | null {
+    const unwrap = (expression: ts.Expression): ts.ObjectLiteralExpression | null => {
+      while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+        expression = expression.expression;
+      }
+      return ts.isObjectLiteralExpression(expression) ? expression : null;
+    };
+
+    if (!ts.isArrowFunction(factory) && !ts.isFunctionExpression(factory)) {
+      return null;
+    }
+
+    if (!ts.isBlock(factory.body)) {
+      return unwrap(factory.body);
+    }
+
+    for (const statement of factory.body.statements) {
+      if (ts.isReturnStatement(statement) && statement.expression) {
+        return unwrap(statement.expression);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a handle member value to a function: inline functions, useCallback(fn) or a local
+   * function/const declared in the component body
+   */
+  private static resolveFunction(expression: ts.Expression, scope: ts.FunctionLikeDeclaration): ts.FunctionLikeDeclaration | null {
+    if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+      return expression;
+    }
+
+    if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+      const callee = expression.expression;
+      if ((ts.isIdentifier(callee) && callee.text === 'useCallback') ||
+          (ts.isPropertyAccessExpression(callee) && callee.name.text === 'useCallback')) {
+        return this.resolveFunction(expression.arguments[0], scope);
+      }
+    }
+
+    if (ts.isIdentifier(expression) && scope.body) {
+      const local = this.findLocalFunction(scope.body, expression.text);
+      if (local) {
+        return local;
+      }
+      const declared = this.findLocalFunction(scope.getSourceFile(), expression.text);
+      if (declared) {
+        return declared;
+      }
+    }
+
+    return null;
   }
 
   /**
-   * Extract style class names from styles file
+   * Find a function declaration or a const initialised with a function inside a node
+   */
+  private static findLocalFunction(container: ts.Node, name: string): ts.FunctionLikeDeclaration | null {
+    let found: ts.FunctionLikeDeclaration | null = null;
+
+    const visit = (node: ts.Node) => {
+      if (found) return;
+      if (ts.isFunctionDeclaration(node) && node.name?.text === name) {
+        found = node;
+        return;
+      }
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === name && node.initializer) {
+        let initializer: ts.Expression = node.initializer;
+        // const focus = useCallback(() => {...}, [])
+        if (ts.isCallExpression(initializer) && initializer.arguments.length > 0 &&
+            /(^|\.)useCallback$/.test(initializer.expression.getText())) {
+          initializer = initializer.arguments[0];
+        }
+        if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+          found = initializer;
+          return;
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(container);
+    return found;
+  }
+
+  /**
+   * Methods declared on the ref handle type (interface or type literal)
+   */
+  private static extractHandleMembers(sourceFile: ts.SourceFile, handleType: ts.TypeNode): Map<string, MethodInfo> {
+    const methods = new Map<string, MethodInfo>();
+    let members: ts.NodeArray<ts.TypeElement> | undefined;
+
+    if (ts.isTypeLiteralNode(handleType)) {
+      members = handleType.members;
+    } else if (ts.isTypeReferenceNode(handleType)) {
+      const typeName = handleType.typeName.getText(sourceFile);
+      const visit = (node: ts.Node) => {
+        if (members) return;
+        if (ts.isInterfaceDeclaration(node) && node.name.text === typeName) {
+          members = node.members;
+        } else if (ts.isTypeAliasDeclaration(node) && node.name.text === typeName && ts.isTypeLiteralNode(node.type)) {
+          members = node.type.members;
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(sourceFile);
+    }
+
+    for (const member of members ?? []) {
+      if (!member.name) continue;
+
+      let signature: ts.SignatureDeclaration | undefined;
+      if (ts.isMethodSignature(member)) {
+        signature = member;
+      } else if (ts.isPropertySignature(member) && member.type && ts.isFunctionTypeNode(member.type)) {
+        signature = member.type;
+      }
+      if (!signature) continue;
+
+      const jsDoc = this.extractJsDoc(member);
+      const name = member.name.getText(sourceFile);
+      methods.set(name, {
+        name,
+        visibility: 'public',
+        returnType: signature.type ? signature.type.getText(sourceFile) : 'void',
+        parameters: this.extractParameters(signature.parameters, sourceFile, jsDoc),
+        ...this.jsDocFields(jsDoc),
+      });
+    }
+
+    return methods;
+  }
+
+  /**
+   * Extract style class names and their style rules from styles file
    */
   static extractStyleClasses(sourceCode: string): {
     defaultClass: string;
     styleClasses: string[];
+    rules: Record<string, StyleRule>;
   } | null {
     const sourceFile = this.createSourceFile(sourceCode);
     let defaultClass = '';
     const styleClasses: string[] = [];
+    const rules: Record<string, StyleRule> = {};
+    const context: StyleContext = {
+      sourceFile,
+      themeVariables: new Set(['themeVariables']),
+      locals: new Map(),
+      depth: 0,
+    };
+
+    const collectLocals = (node: ts.Node) => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer &&
+          !context.locals.has(node.name.text)) {
+        context.locals.set(node.name.text, node.initializer);
+      }
+
+      // BASE_THEME.registerStyle((themeVariables, addStyle) => { ... })
+      if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+          node.expression.name.text === 'registerStyle') {
+        const callback = node.arguments[0];
+        if (callback && (ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) {
+          const themeParam = callback.parameters[0];
+          if (themeParam && ts.isIdentifier(themeParam.name)) {
+            context.themeVariables.add(themeParam.name.text);
+          }
+        }
+      }
+
+      ts.forEachChild(node, collectLocals);
+    };
+    collectLocals(sourceFile);
 
     const visit = (node: ts.Node) => {
       // Look for DEFAULT_CLASS constant
@@ -305,35 +1021,29 @@ export class TypeScriptParser {
         }
 
         if (isAddStyleCall && node.arguments.length > 0) {
-          const firstArg = node.arguments[0];
-          if (ts.isStringLiteral(firstArg)) {
-            // Direct string literal: addStyle('link-primary', ...)
-            const className = firstArg.text;
+          const className = this.resolveStyleClassName(node.arguments[0], sourceFile, defaultClass);
+
+          if (className !== null) {
             if (!styleClasses.includes(className)) {
               styleClasses.push(className);
             }
-          } else if (ts.isBinaryExpression(firstArg)) {
-            // Handle cases like DEFAULT_CLASS + '-disabled'
-            const text = firstArg.getText(sourceFile);
-
-            // Try to resolve DEFAULT_CLASS references
-            let resolvedClassName = text;
-            if (text.includes('DEFAULT_CLASS') && defaultClass) {
-              resolvedClassName = text.replace(/DEFAULT_CLASS/g, `'${defaultClass}'`);
-              // Evaluate simple concatenations like 'app-button' + '-disabled'
-              try {
-                // Remove quotes and concatenate
-                resolvedClassName = resolvedClassName
-                  .replace(/['"`]/g, '')
-                  .replace(/\s*\+\s*/g, '');
-              } catch (e) {
-                // Keep original if evaluation fails
-                resolvedClassName = text;
-              }
-            }
 
-            if (!styleClasses.includes(resolvedClassName)) {
-              styleClasses.push(resolvedClassName);
+            // addStyle(name, extend, styles) - the 2 argument form omits extend
+            const [, extendArg, stylesArg] = node.arguments;
+            const styleExpression = stylesArg ?? (extendArg && !ts.isStringLiteralLike(extendArg) ? extendArg : undefined);
+            const extendsClass = stylesArg && extendArg
+              ? this.resolveStyleClassName(extendArg, sourceFile, defaultClass)
+              : null;
+
+            const rule = rules[className] ?? (rules[className] = { properties: {} });
+            if (extendsClass) {
+              rule.extends = extendsClass;
+            }
+            if (styleExpression) {
+              const value = this.evaluateStyleExpression(styleExpression, context);
+              if (this.isStyleObject(value)) {
+                rule.properties = this.mergeStyleObjects(rule.properties, value);
+              }
             }
           }
         }
@@ -345,16 +1055,185 @@ export class TypeScriptParser {
     visit(sourceFile);
 
     if (defaultClass || styleClasses.length > 0) {
-      return { defaultClass, styleClasses };
+      return { defaultClass, styleClasses, rules };
     }
 
     return null;
   }
 
+  /**
+   * Resolve the class name argument of addStyle: 'link-primary' or DEFAULT_CLASS + '-disabled'
+   */
+  private static resolveStyleClassName(arg: ts.Expression, sourceFile: ts.SourceFile, defaultClass: string): string | null {
+    if (ts.isStringLiteral(arg)) {
+      // Direct string literal: addStyle('link-primary', ...)
+      return arg.text || null;
+    }
+
+    if (ts.isIdentifier(arg) && arg.text === 'DEFAULT_CLASS' && defaultClass) {
+      return defaultClass;
+    }
+
+    if (ts.isBinaryExpression(arg)) {
+      // Handle cases like DEFAULT_CLASS + '-disabled'
+      const text = arg.getText(sourceFile);
+
+      // Try to resolve DEFAULT_CLASS references
+      let resolvedClassName = text;
+      if (text.includes('DEFAULT_CLASS') && defaultClass) {
+        resolvedClassName = text.replace(/DEFAULT_CLASS/g, `'${defaultClass}'`);
+        // Evaluate simple concatenations like 'app-button' + '-disabled'
+        try {
+          // Remove quotes and concatenate
+          resolvedClassName = resolvedClassName
+            .replace(/['"`]/g, '')
+            .replace(/\s*\+\s*/g, '');
+        } catch (e) {
+          // Keep original if evaluation fails
+          resolvedClassName = text;
+        }
+      }
+
+      return resolvedClassName;
+    }
+
+    return null;
+  }
+
+  /**
+   * Statically evaluate a style expression into plain values.
+   * Theme variable references become { token } entries, anything dynamic is kept as source text.
+   */
+  private static evaluateStyleExpression(expression: ts.Expression, context: StyleContext): StyleValue {
+    const { sourceFile } = context;
+
+    if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) ||
+        ts.isNonNullExpression(expression) || ts.isSatisfiesExpression(expression)) {
+      return this.evaluateStyleExpression(expression.expression, context);
+    }
+
+    if (ts.isStringLiteralLike(expression)) {
+      return expression.text;
+    }
+    if (ts.isNumericLiteral(expression)) {
+      return Number(expression.text);
+    }
+    if (ts.isPrefixUnaryExpression(expression) && expression.operator === ts.SyntaxKind.MinusToken &&
+        ts.isNumericLiteral(expression.operand)) {
+      return -Number(expression.operand.text);
+    }
+    if (expression.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (expression.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (expression.kind === ts.SyntaxKind.NullKeyword) return null;
+
+    if (ts.isObjectLiteralExpression(expression)) {
+      let result: Record<string, StyleValue> = {};
+
+      for (const property of expression.properties) {
+        if (ts.isPropertyAssignment(property)) {
+          const key = ts.isStringLiteral(property.name) ? property.name.text : property.name.getText(sourceFile);
+          result[key] = this.evaluateStyleExpression(property.initializer, context);
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          result[property.name.text] = this.evaluateStyleExpression(property.name, context);
+        } else if (ts.isSpreadAssignment(property)) {
+          const spread = this.evaluateStyleExpression(property.expression, context);
+          if (this.isStyleObject(spread)) {
+            result = this.mergeStyleObjects(result, spread);
+          } else {
+            result[`...${property.expression.getText(sourceFile)}`] = property.expression.getText(sourceFile);
+          }
+        }
+      }
+
+      return result;
+    }
+
+    if (ts.isArrayLiteralExpression(expression)) {
+      return expression.elements.map(element => this.evaluateStyleExpression(element, context));
+    }
+
+    // defineStyles({ ... }) / defineStyles<WmButtonStyles>({ ... })
+    if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+      const callee = expression.expression;
+      const calleeName = ts.isPropertyAccessExpression(callee) ? callee.name.text : callee.getText(sourceFile);
+      if (calleeName === 'defineStyles') {
+        return this.evaluateStyleExpression(expression.arguments[0], context);
+      }
+    }
+
+    if (ts.isPropertyAccessExpression(expression) || ts.isElementAccessExpression(expression)) {
+      // themeVariables.primaryColor -> { token: 'primaryColor' }
+      const path: string[] = [];
+      let current: ts.Expression = expression;
+      while (ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current)) {
+        if (ts.isPropertyAccessExpression(current)) {
+          path.unshift(current.name.text);
+        } else if (ts.isStringLiteralLike(current.argumentExpression)) {
+          path.unshift(current.argumentExpression.text);
+        } else {
+          return expression.getText(sourceFile);
+        }
+        current = current.expression;
+      }
+
+      if (ts.isIdentifier(current) && context.themeVariables.has(current.text)) {
+        return { token: path.join('.') };
+      }
+
+      // defaultStyles.root -> look into a local style object
+      let value = this.evaluateStyleExpression(current, context);
+      for (const key of path) {
+        if (!this.isStyleObject(value) || !(key in value)) {
+          return expression.getText(sourceFile);
+        }
+        value = value[key];
+      }
+      return value;
+    }
+
+    if (ts.isIdentifier(expression)) {
+      const initializer = context.locals.get(expression.text);
+      if (initializer && context.depth < 10) {
+        return this.evaluateStyleExpression(initializer, { ...context, depth: context.depth + 1 });
+      }
+    }
+
+    return expression.getText(sourceFile);
+  }
+
+  private static isStyleObject(value: StyleValue): value is { [key: string]: StyleValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !('token' in value);
+  }
+
+  /**
+   * Deep merge style objects, later values win (mirrors how addStyle merges repeated classes)
+   */
+  private static mergeStyleObjects(
+    target: Record<string, StyleValue>,
+    source: Record<string, StyleValue>
+  ): Record<string, StyleValue> {
+    const result: Record<string, StyleValue> = { ...target };
+
+    for (const [key, value] of Object.entries(source)) {
+      const existing = result[key];
+      result[key] = this.isStyleObject(existing) && this.isStyleObject(value)
+        ? this.mergeStyleObjects(existing, value)
+        : value;
+    }
+
+    return result;
+  }
+
   /**
    * Extract event handlers (props that are Functions and start with 'on')
    */
-  static extractEvents(props: PropInfo[]): Array<{ name: string; type: string }> {
+  static extractEvents(props: PropInfo[]): Array<{
+    name: string;
+    type: string;
+    description?: string;
+    deprecated?: boolean;
+    deprecationMessage?: string;
+  }> {
     return props
       .filter(prop =>
         prop.name.startsWith('on') &&
@@ -363,42 +1242,247 @@ export class TypeScriptParser {
       .map(prop => ({
         name: prop.name,
         type: prop.type,
+        description: prop.description,
+        deprecated: prop.deprecated,
+        deprecationMessage: prop.deprecationMessage,
       }));
   }
 
   /**
-   * Extract event callbacks from invokeEventCallback calls in JavaScript source
-   * Pattern: invokeEventCallback('onTap', [e, target])
+   * Extract event callbacks from invokeEventCallback calls using the AST of the component source
+   * (TypeScript or compiled JavaScript). Pattern: invokeEventCallback('onTap', [e, this.proxy])
+   * Argument types are inferred from parameter annotations, local declarations and props.
    */
-  static extractEventCallbacks(sourceCode: string): Array<{ name: string; parameters: string }> {
-    const events: Array<{ name: string; parameters: string }> = [];
-    const eventSet = new Set<string>(); // To avoid duplicates
+  static extractEventCallbacks(sourceCode: string, props: PropInfo[] = []): Array<{
+    name: string;
+    parameters: string;
+    args: ParameterInfo[];
+    callSites: string[];
+  }> {
+    const sourceFile = this.createSourceFile(sourceCode);
+    const events = new Map<string, { name: string; args: ParameterInfo[]; callSites: string[] }>();
 
-    // Match: invokeEventCallback('eventName', [params])
-    // This regex captures the event name from invokeEventCallback calls
-    const invokePattern = /invokeEventCallback\s*\(\s*['"](\w+)['"]\s*,\s*\[([^\]]*)\]\s*\)/g;
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && this.isInvokeEventCallback(node) && node.arguments.length > 0) {
+        const [nameArg, argsArg] = node.arguments;
+        const eventName = ts.isStringLiteralLike(nameArg) ? nameArg.text : null;
 
-    let match;
-    while ((match = invokePattern.exec(sourceCode)) !== null) {
-      const eventName = match[1]; // e.g., 'onTap', 'onDoubletap', 'onLongtap'
-      const params = match[2].trim(); // e.g., 'e, target'
+        if (eventName) {
+          const args = this.inferEventArguments(argsArg, node, sourceFile, props);
+          const callSite = this.getCallSiteName(node, sourceFile);
+          const existing = events.get(eventName);
 
-      if (!eventSet.has(eventName)) {
-        eventSet.add(eventName);
+          if (!existing) {
+            events.set(eventName, { name: eventName, args, callSites: callSite ? [callSite] : [] });
+          } else {
+            // Later call sites can carry better type information for the same argument
+            args.forEach((arg, index) => {
+              const current = existing.args[index];
+              if (!current) {
+                existing.args.push({ ...arg, optional: true });
+              } else if (current.type === 'any' && arg.type !== 'any') {
+                current.type = arg.type;
+              }
+            });
+            if (callSite && !existing.callSites.includes(callSite)) {
+              existing.callSites.push(callSite);
+            }
+          }
+        }
+      }
 
-        // Clean up parameters - extract variable names
-        const paramList = params
-          .split(',')
-          .map(p => p.trim())
-          .filter(p => p && p !== 'this.props.target' && p !== 'target');
+      ts.forEachChild(node, visit);
+    };
 
-        events.push({
-          name: eventName,
-          parameters: paramList.length > 0 ? `(${paramList.join(', ')})` : '()'
-        });
+    visit(sourceFile);
+
+    return Array.from(events.values()).map(event => ({
+      ...event,
+      parameters: `(${event.args.map(arg => arg.type === 'any' ? arg.name : `${arg.name}: ${arg.type}`).join(', ')})`,
+    }));
+  }
+
+  private static isInvokeEventCallback(node: ts.CallExpression): boolean {
+    const callee = node.expression;
+    return (ts.isIdentifier(callee) && callee.text === 'invokeEventCallback') ||
+      (ts.isPropertyAccessExpression(callee) && callee.name.text === 'invokeEventCallback');
+  }
+
+  /**
+   * Name and type of each argument passed to invokeEventCallback
+   */
+  private static inferEventArguments(
+    argsArg: ts.Expression | undefined,
+    call: ts.Node,
+    sourceFile: ts.SourceFile,
+    props: PropInfo[]
+  ): ParameterInfo[] {
+    if (!argsArg) {
+      return [];
+    }
+
+    // invokeEventCallback('onChange', args) - the whole argument list comes from one expression
+    if (!ts.isArrayLiteralExpression(argsArg)) {
+      const { name, type } = this.inferExpression(argsArg, call, sourceFile, props, 0);
+      return [{ name: `...${name}`, type: type === 'any' ? 'any[]' : type, optional: true }];
+    }
+
+    return argsArg.elements.map((element, index) => {
+      if (ts.isSpreadElement(element)) {
+        const { name, type } = this.inferExpression(element.expression, call, sourceFile, props, index);
+        return { name: `...${name}`, type: type === 'any' ? 'any[]' : type, optional: true };
+      }
+
+      const { name, type } = this.inferExpression(element, call, sourceFile, props, index);
+      return { name, type, optional: false };
+    });
+  }
+
+  /**
+   * Infer a readable name and a type for an expression from the code around the call
+   */
+  private static inferExpression(
+    expression: ts.Expression,
+    call: ts.Node,
+    sourceFile: ts.SourceFile,
+    props: PropInfo[],
+    index: number
+  ): { name: string; type: string } {
+    const fallbackName = `arg${index}`;
+
+    if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) || ts.isNonNullExpression(expression)) {
+      const inner = this.inferExpression(expression.expression, call, sourceFile, props, index);
+      return ts.isAsExpression(expression) ? { ...inner, type: expression.type.getText(sourceFile) } : inner;
+    }
+
+    if (ts.isStringLiteralLike(expression)) return { name: fallbackName, type: 'string' };
+    if (ts.isNumericLiteral(expression)) return { name: fallbackName, type: 'number' };
+    if (expression.kind === ts.SyntaxKind.TrueKeyword || expression.kind === ts.SyntaxKind.FalseKeyword) {
+      return { name: fallbackName, type: 'boolean' };
+    }
+    if (expression.kind === ts.SyntaxKind.NullKeyword) return { name: fallbackName, type: 'null' };
+    if (ts.isObjectLiteralExpression(expression)) return { name: fallbackName, type: 'object' };
+    if (ts.isArrayLiteralExpression(expression)) return { name: fallbackName, type: 'any[]' };
+
+    if (ts.isIdentifier(expression)) {
+      if (expression.text === 'undefined') return { name: fallbackName, type: 'undefined' };
+      return { name: expression.text, type: this.findLocalType(expression.text, call, sourceFile, props) };
+    }
+
+    if (ts.isPropertyAccessExpression(expression)) {
+      const name = expression.name.text;
+      const owner = expression.expression.getText(sourceFile);
+
+      // this.proxy is the widget instance handed to event handlers
+      if (owner === 'this' && name === 'proxy') {
+        const className = this.getEnclosingClassName(call);
+        return { name: 'widget', type: className ?? 'any' };
       }
+
+      // this.props.x / props.x
+      if (owner === 'this.props' || owner === 'props') {
+        const prop = props.find(p => p.name === name);
+        return { name, type: prop?.type ?? 'any' };
+      }
+
+      return { name, type: 'any' };
     }
 
-    return events;
+    return { name: fallbackName, type: 'any' };
+  }
+
+  /**
+   * Type of an identifier from the enclosing function parameters or local declarations
+   */
+  private static findLocalType(name: string, from: ts.Node, sourceFile: ts.SourceFile, props: PropInfo[]): string {
+    let current: ts.Node | undefined = from.parent;
+
+    while (current) {
+      if (ts.isFunctionLike(current)) {
+        for (const param of current.parameters) {
+          if (ts.isIdentifier(param.name) && param.name.text === name) {
+            if (param.type) return param.type.getText(sourceFile);
+            if (param.initializer) return this.literalType(param.initializer);
+            return 'any';
+          }
+
+          // ({ value }) => ... destructured from props
+          if (ts.isObjectBindingPattern(param.name) &&
+              param.name.elements.some(e => ts.isIdentifier(e.name) && e.name.text === name)) {
+            return props.find(p => p.name === name)?.type ?? 'any';
+          }
+        }
+      }
+
+      if (ts.isBlock(current) || ts.isSourceFile(current)) {
+        for (const statement of current.statements) {
+          if (!ts.isVariableStatement(statement)) continue;
+          for (const declaration of statement.declarationList.declarations) {
+            if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+              if (declaration.type) return declaration.type.getText(sourceFile);
+              if (declaration.initializer) return this.literalType(declaration.initializer);
+            }
+          }
+        }
+      }
+
+      current = current.parent;
+    }
+
+    return 'any';
+  }
+
+  private static literalType(expression: ts.Expression): string {
+    if (ts.isStringLiteralLike(expression) || ts.isTemplateExpression(expression)) return 'string';
+    if (ts.isNumericLiteral(expression)) return 'number';
+    if (expression.kind === ts.SyntaxKind.TrueKeyword || expression.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+    if (ts.isArrayLiteralExpression(expression)) return 'any[]';
+    if (ts.isObjectLiteralExpression(expression)) return 'object';
+    if (ts.isNewExpression(expression)) return expression.expression.getText();
+    return 'any';
+  }
+
+  /**
+   * Name of the method (or class field) that fires an event, e.g. WmButton.onPress
+   */
+  private static getCallSiteName(node: ts.Node, sourceFile: ts.SourceFile): string | null {
+    let current: ts.Node | undefined = node.parent;
+
+    while (current) {
+      let name: string | undefined;
+
+      if ((ts.isMethodDeclaration(current) || ts.isGetAccessor(current) || ts.isSetAccessor(current)) && current.name) {
+        name = current.name.getText(sourceFile);
+      } else if (ts.isPropertyDeclaration(current)) {
+        name = current.name.getText(sourceFile);
+      } else if (ts.isFunctionDeclaration(current) && current.name) {
+        name = current.name.text;
+      } else if (ts.isVariableDeclaration(current) && ts.isIdentifier(current.name) && current.initializer &&
+                 (ts.isArrowFunction(current.initializer) || ts.isFunctionExpression(current.initializer))) {
+        name = current.name.text;
+      } else if (ts.isConstructorDeclaration(current)) {
+        name = 'constructor';
+      }
+
+      if (name) {
+        const className = this.getEnclosingClassName(current);
+        return className ? `${className}.${name}` : name;
+      }
+
+      current = current.parent;
+    }
+
+    return null;
+  }
+
+  private static getEnclosingClassName(node: ts.Node): string | undefined {
+    let current: ts.Node | undefined = node.parent;
+    while (current) {
+      if ((ts.isClassDeclaration(current) || ts.isClassExpression(current)) && current.name) {
+        return current.name.text;
+      }
+      current = current.parent;
+    }
+    return undefined;
   }
 }
@@ -0,0 +1,301 @@
+/**
+ * Type-checker backed prop resolution using a real ts.Program over the components tree
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AllowedValue, PropInfo } from './types.js';
+import { TypeScriptParser } from './ts-parser.js';
+
+export interface ResolvedProps {
+  props: PropInfo[];
+  className: string;
+  baseClass?: string;
+  inheritanceChain: string[];
+}
+
+type PropsDeclaration = ts.ClassDeclaration | ts.InterfaceDeclaration | ts.TypeAliasDeclaration;
+
+export class TypeCheckerResolver {
+  private program: ts.Program;
+  private checker: ts.TypeChecker;
+  private rootPath: string;
+
+  private constructor(program: ts.Program, rootPath: string) {
+    this.program = program;
+    this.checker = program.getTypeChecker();
+    this.rootPath = rootPath;
+  }
+
+  /**
+   * Build a program over the components tree.
+   * Returns null when no tsconfig can be found, so callers can fall back to syntax-only parsing.
+   */
+  static create(componentsPath: string, tsconfigPath?: string): TypeCheckerResolver | null {
+    const configPath = tsconfigPath
+      ? path.resolve(tsconfigPath)
+      : ts.findConfigFile(componentsPath, ts.sys.fileExists, 'tsconfig.json');
+
+    if (!configPath || !fs.existsSync(configPath)) {
+      return null;
+    }
+
+    const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (configFile.error) {
+      console.warn(`Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')}`);
+      return null;
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(configPath));
+    const componentsRoot = path.resolve(componentsPath);
+
+    // Only the components tree is needed; everything else is pulled in through imports
+    let rootNames = parsed.fileNames.filter(f => path.resolve(f).startsWith(componentsRoot + path.sep));
+    if (rootNames.length === 0) {
+      rootNames = ts.sys.readDirectory(componentsRoot, ['.ts', '.tsx'], ['**/node_modules/**']);
+    }
+
+    if (rootNames.length === 0) {
+      return null;
+    }
+
+    console.log(`Type checker: building program over ${rootNames.length} files (${configPath})`);
+    const program = ts.createProgram({
+      rootNames,
+      options: { ...parsed.options, noEmit: true },
+    });
+
+    return new TypeCheckerResolver(program, componentsRoot);
+  }
+
+  /**
+   * Resolve every prop of the Props declaration in a file, including inherited ones
+   */
+  resolveProps(filePath: string): ResolvedProps | null {
+    const sourceFile = this.program.getSourceFile(path.resolve(filePath));
+    if (!sourceFile) {
+      return null;
+    }
+
+    const declaration = this.findPropsDeclaration(sourceFile);
+    if (!declaration || !declaration.name) {
+      return null;
+    }
+
+    const symbol = this.checker.getSymbolAtLocation(declaration.name);
+    if (!symbol) {
+      return null;
+    }
+
+    const className = declaration.name.text;
+    const type = this.checker.getDeclaredTypeOfSymbol(symbol);
+    const props: PropInfo[] = [];
+
+    for (const property of this.checker.getPropertiesOfType(type)) {
+      if (!(property.flags & ts.SymbolFlags.Property)) {
+        continue;
+      }
+
+      const propDeclaration = property.valueDeclaration ?? property.declarations?.[0];
+      if (!propDeclaration) {
+        continue;
+      }
+
+      const optional = (property.flags & ts.SymbolFlags.Optional) !== 0;
+      const owner = this.getOwnerName(propDeclaration);
+      const inherited = owner !== undefined && owner !== className;
+
+      let defaultValue: string | undefined;
+      if (ts.isPropertyDeclaration(propDeclaration) && propDeclaration.initializer) {
+        defaultValue = TypeScriptParser.cleanDefaultValue(propDeclaration.initializer.getText());
+      }
+
+      const jsDoc = TypeScriptParser.extractJsDoc(propDeclaration);
+
+      const propType = this.checker.getTypeOfSymbolAtLocation(property, propDeclaration);
+
+      props.push({
+        name: property.getName(),
+        type: this.typeToString(propType, propDeclaration, optional),
+        allowedValues: this.getAllowedValues(propType),
+        optional,
+        defaultValue: defaultValue ?? jsDoc.defaultValue,
+        defaultSource: defaultValue ? 'initializer' : jsDoc.defaultValue ? 'jsdoc' : undefined,
+        inherited,
+        inheritedFrom: inherited ? owner : undefined,
+        declaredIn: path.relative(this.rootPath, propDeclaration.getSourceFile().fileName),
+        ...TypeScriptParser.jsDocFields(jsDoc),
+      });
+    }
+
+    const inheritanceChain: string[] = [];
+    this.collectInheritanceChain(declaration, inheritanceChain, new Set([className]));
+
+    return {
+      props,
+      className,
+      baseClass: this.getDirectParents(declaration)[0]?.name?.text,
+      inheritanceChain,
+    };
+  }
+
+  /**
+   * Find the Props class, interface or type alias (the last one wins, like the syntax-only parser)
+   */
+  private findPropsDeclaration(sourceFile: ts.SourceFile): PropsDeclaration | null {
+    let result: PropsDeclaration | null = null;
+
+    const visit = (node: ts.Node) => {
+      if ((ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node))
+        && node.name && node.name.text.endsWith('Props')) {
+        result = node;
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return result;
+  }
+
+  /**
+   * Render a type fully expanded (aliases at the top level are written out)
+   */
+  private typeToString(type: ts.Type, enclosing: ts.Node, optional: boolean): string {
+    const flags = ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.InTypeAlias;
+
+    if (optional && type.isUnion()) {
+      // Drop the implicit `undefined` of optional props, but keep an explicit `null`
+      const hasNull = type.types.some(t => (t.flags & ts.TypeFlags.Null) !== 0);
+      if (!hasNull) {
+        return this.checker.typeToString(this.checker.getNonNullableType(type), enclosing, flags);
+      }
+      return this.checker.typeToString(type, enclosing, flags).replace(/ \| undefined$/, '');
+    }
+
+    return this.checker.typeToString(type, enclosing, flags);
+  }
+
+  /**
+   * Literal members of a union (string/number literals, enum members), ignoring undefined and null
+   */
+  private getAllowedValues(type: ts.Type): AllowedValue[] | undefined {
+    const members = type.isUnion() ? type.types : [type];
+    const values: AllowedValue[] = [];
+
+    for (const member of members) {
+      if (member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null)) {
+        continue;
+      }
+      if (member.isStringLiteral() || member.isNumberLiteral()) {
+        values.push(member.value);
+      } else if (member.flags & ts.TypeFlags.BooleanLiteral) {
+        values.push(this.checker.typeToString(member) === 'true');
+      } else {
+        return undefined;
+      }
+    }
+
+    // A plain boolean (true | false) is not an enumeration
+    if (values.length === 0 || values.every(v => typeof v === 'boolean')) {
+      return undefined;
+    }
+
+    return values;
+  }
+
+  /**
+   * Name of the class, interface or type alias a member is declared in
+   */
+  private getOwnerName(node: ts.Node): string | undefined {
+    let current: ts.Node | undefined = node.parent;
+
+    while (current) {
+      if ((ts.isClassDeclaration(current) || ts.isInterfaceDeclaration(current) || ts.isTypeAliasDeclaration(current))
+        && current.name) {
+        return current.name.text;
+      }
+      current = current.parent;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Declarations a class, interface or type alias directly inherits from
+   */
+  private getDirectParents(declaration: PropsDeclaration): PropsDeclaration[] {
+    const parents: PropsDeclaration[] = [];
+
+    const addFromExpression = (expression: ts.Node) => {
+      const parent = this.resolveDeclaration(expression);
+      if (parent) parents.push(parent);
+    };
+
+    const addFromTypeNode = (typeNode: ts.TypeNode) => {
+      if (ts.isIntersectionTypeNode(typeNode) || ts.isUnionTypeNode(typeNode)) {
+        typeNode.types.forEach(addFromTypeNode);
+      } else if (ts.isParenthesizedTypeNode(typeNode)) {
+        addFromTypeNode(typeNode.type);
+      } else if (ts.isTypeReferenceNode(typeNode)) {
+        const parent = this.resolveDeclaration(typeNode.typeName);
+        if (parent && !this.program.isSourceFileDefaultLibrary(parent.getSourceFile())) {
+          parents.push(parent);
+        } else if (typeNode.typeArguments?.length) {
+          // Utility types such as Omit<BaseProps, 'x'> or Partial<BaseProps>
+          addFromTypeNode(typeNode.typeArguments[0]);
+        } else if (parent) {
+          parents.push(parent);
+        }
+      }
+    };
+
+    if (ts.isTypeAliasDeclaration(declaration)) {
+      addFromTypeNode(declaration.type);
+    } else if (declaration.heritageClauses) {
+      for (const heritage of declaration.heritageClauses) {
+        if (heritage.token === ts.SyntaxKind.ExtendsKeyword) {
+          heritage.types.forEach(t => addFromExpression(t.expression));
+        }
+      }
+    }
+
+    return parents;
+  }
+
+  /**
+   * Resolve an identifier (following imports) to its class, interface or type alias declaration
+   */
+  private resolveDeclaration(node: ts.Node): PropsDeclaration | null {
+    let symbol = this.checker.getSymbolAtLocation(node);
+    if (!symbol) {
+      return null;
+    }
+
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.checker.getAliasedSymbol(symbol);
+    }
+
+    const declaration = symbol.declarations?.find(d =>
+      ts.isClassDeclaration(d) || ts.isInterfaceDeclaration(d) || ts.isTypeAliasDeclaration(d)
+    );
+
+    return (declaration as PropsDeclaration | undefined) ?? null;
+  }
+
+  /**
+   * Walk the inheritance graph depth-first, recording each ancestor once
+   */
+  private collectInheritanceChain(declaration: PropsDeclaration, chain: string[], visited: Set<string>): void {
+    for (const parent of this.getDirectParents(declaration)) {
+      const name = parent.name?.text;
+      if (!name || visited.has(name)) {
+        continue;
+      }
+
+      visited.add(name);
+      chain.push(name);
+      this.collectInheritanceChain(parent, chain, visited);
+    }
+  }
+}
@@ -2,14 +2,28 @@
  * Type definitions for component documentation generator
  */
 
+export type DefaultValueSource = 'initializer' | 'jsdoc' | 'destructuring' | 'defaultProps' | 'constructor';
+
+export type AllowedValue = string | number | boolean;
+
 export interface PropInfo {
   name: string;
   type: string;
   defaultValue?: string;
+  defaultSource?: DefaultValueSource;
   optional: boolean;
   description?: string;
   inherited?: boolean;
   inheritedFrom?: string;
+  declaredIn?: string;
+  /**
+   * Finite set of values resolved from literal unions, enums or `as const` arrays
+   */
+  allowedValues?: AllowedValue[];
+  deprecated?: boolean;
+  deprecationMessage?: string;
+  since?: string;
+  examples?: string[];
 }
 
 export interface MethodInfo {
@@ -18,25 +32,75 @@ export interface MethodInfo {
   returnType: string;
   parameters: ParameterInfo[];
   description?: string;
+  deprecated?: boolean;
+  deprecationMessage?: string;
+  since?: string;
+  examples?: string[];
 }
 
 export interface ParameterInfo {
   name: string;
   type: string;
   optional: boolean;
+  description?: string;
 }
 
 export interface EventInfo {
   name: string;
   type: string;
   parameters?: string;
+  args?: ParameterInfo[];
+  /**
+   * Methods that fire the event (e.g. WmButton.onPress)
+   */
+  callSites?: string[];
   description?: string;
+  deprecated?: boolean;
+  deprecationMessage?: string;
+}
+
+export interface DefaultValueInfo {
+  name: string;
+  value: string;
+  source: DefaultValueSource;
+}
+
+export interface JsDocInfo {
+  description?: string;
+  defaultValue?: string;
+  deprecated?: boolean;
+  deprecationMessage?: string;
+  since?: string;
+  examples?: string[];
+  params?: Record<string, string>;
+}
+
+export interface ThemeTokenRef {
+  token: string;
+}
+
+export type StyleValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ThemeTokenRef
+  | StyleValue[]
+  | { [key: string]: StyleValue };
+
+export interface StyleRule {
+  extends?: string;
+  properties: Record<string, StyleValue>;
 }
 
 export interface StyleInfo {
   className: string;
   description?: string;
-  properties?: Record<string, any>;
+  extends?: string;
+  /**
+   * Style parts (root, text, icon, ...) and their properties
+   */
+  properties?: Record<string, StyleValue>;
 }
 
 export interface ComponentDoc {
@@ -48,14 +112,70 @@ export interface ComponentDoc {
   events: EventInfo[];
   styles: StyleInfo[];
   baseClass?: string;
+  inheritanceChain?: string[];
+  runtimeVersion?: string;
   children?: ComponentDoc[];
   description?: string;
 }
 
 export interface SourceMapContent {
   version: number;
+  sourceRoot?: string;
   sources: string[];
-  sourcesContent: string[];
+  sourcesContent?: (string | null)[];
   names: string[];
   mappings: string;
 }
+
+export type SourceRole = 'props' | 'component' | 'styles' | 'other';
+
+export interface SourceEntry {
+  /**
+   * Original file name as listed in the map's `sources`
+   */
+  fileName: string;
+  role: SourceRole;
+  content: string;
+  /**
+   * Map (or file) the content was read from
+   */
+  origin: string;
+}
+
+export interface ComponentSources {
+  props?: string;
+  component?: string;
+  styles?: string;
+  propsPath?: string;
+  /**
+   * Every original source found for the component
+   */
+  files: SourceEntry[];
+  /**
+   * Map entries whose original content could not be recovered
+   */
+  missingContent: string[];
+}
+
+export type ThemeTokenType = 'color' | 'spacing' | 'size' | 'font' | 'other';
+
+export interface TokenConsumer {
+  component: string;
+  className: string;
+  part: string;
+  property: string;
+}
+
+export interface ThemeToken {
+  name: string;
+  value?: string | number | boolean | null;
+  type: ThemeTokenType;
+  alias?: string;
+  declared: boolean;
+  consumers: TokenConsumer[];
+}
+
+export interface TokenCatalog {
+  source?: string;
+  tokens: ThemeToken[];
+}
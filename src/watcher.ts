@@ -0,0 +1,169 @@
+/**
+ * Watches the components tree and regenerates the components affected by each batch of changes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentationGenerator } from './doc-generator.js';
+import { LLMDocGenerator } from './llm-doc-generator.js';
+import { ComponentDoc } from './types.js';
+
+export interface WatchOptions {
+  componentsPath: string;
+  outputPath: string;
+  /**
+   * Cache file shared with `generate`, which records what each component was generated from
+   */
+  cacheFile: string;
+  /**
+   * Quiet period after the last change before regenerating (a git checkout fires many events)
+   */
+  debounceMs: number;
+  /**
+   * Builds a generator per run, so every per-run cache (parsed parents, child discovery) starts fresh
+   */
+  createGenerator: () => DocumentationGenerator;
+  /**
+   * Re-run the markdown step for regenerated components
+   */
+  llmGenerator?: LLMDocGenerator | null;
+}
+
+/**
+ * Folders whose changes never affect component docs
+ */
+const IGNORED_SEGMENTS = ['node_modules', '.git'];
+
+export class ComponentWatcher {
+  private options: WatchOptions;
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private watcher: fs.FSWatcher | null = null;
+
+  constructor(options: WatchOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Bring the output up to date, then regenerate affected components on every change until stopped
+   */
+  async start(): Promise<void> {
+    const { componentsPath, outputPath } = this.options;
+
+    console.log('Bringing the output up to date...');
+    const generator = this.options.createGenerator();
+    const cache = generator.useCache(this.options.cacheFile);
+    const docs = generator.generateAllDocs();
+    docs.forEach(doc => generator.saveComponentDoc(doc, outputPath));
+    cache.save();
+
+    const summary = cache.getSummary();
+    console.log(`\n✓ ${docs.length} components up to date (${summary.regenerated} regenerated, ${summary.cached} cached)`);
+
+    this.watcher = fs.watch(componentsPath, { recursive: true }, (_event, fileName) => {
+      if (fileName) {
+        this.onChange(path.join(componentsPath, fileName.toString()));
+      }
+    });
+
+    console.log(`\nWatching ${componentsPath} (Ctrl+C to stop)`);
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private onChange(filePath: string): void {
+    const resolved = path.resolve(filePath);
+    const segments = resolved.split(path.sep);
+
+    // Our own output and cache may live inside the watched tree
+    if (segments.some(segment => IGNORED_SEGMENTS.includes(segment)) ||
+        resolved === path.resolve(this.options.cacheFile) ||
+        resolved.startsWith(path.resolve(this.options.outputPath) + path.sep)) {
+      return;
+    }
+
+    this.pending.add(resolved);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.options.debounceMs);
+  }
+
+  /**
+   * Regenerate the components affected by the pending changes. Changes arriving during a run
+   * are picked up by the next one, so runs never overlap.
+   */
+  private async flush(): Promise<void> {
+    this.timer = null;
+    if (this.running || this.pending.size === 0) {
+      return;
+    }
+
+    const changed = [...this.pending];
+    this.pending.clear();
+    this.running = true;
+
+    try {
+      await this.regenerate(changed);
+    } catch (error) {
+      console.error('✗ Regeneration failed:', error instanceof Error ? error.message : error);
+    } finally {
+      this.running = false;
+    }
+
+    if (this.pending.size > 0) {
+      this.timer = setTimeout(() => this.flush(), this.options.debounceMs);
+    }
+  }
+
+  private async regenerate(changed: string[]): Promise<void> {
+    const started = Date.now();
+    const { componentsPath, outputPath, llmGenerator } = this.options;
+
+    const generator = this.options.createGenerator();
+    const cache = generator.useCache(this.options.cacheFile);
+    const affected = generator.findAffectedComponents(changed);
+
+    const files = changed.slice(0, 5).map(file => path.relative(componentsPath, file)).join(', ');
+    console.log(`\n${changed.length} file(s) changed: ${files}${changed.length > 5 ? ', ...' : ''}`);
+
+    if (affected.length === 0) {
+      console.log('No documented component is affected');
+      return;
+    }
+
+    const docs: ComponentDoc[] = [];
+    for (const { path: componentPath, category } of affected) {
+      const doc = generator.generateComponentDoc(componentPath, category);
+      if (doc) {
+        generator.saveComponentDoc(doc, outputPath);
+        docs.push(doc);
+      }
+    }
+    cache.save();
+
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+    const names = docs.map(doc => doc.componentName);
+    console.log(`✓ Regenerated ${names.length > 10 ? `${names.length} components` : names.join(', ')} in ${seconds}s`);
+
+    if (llmGenerator) {
+      for (const doc of docs) {
+        try {
+          await llmGenerator.generateAndSave(doc);
+          console.log(`✓ Markdown updated for ${doc.componentName}`);
+        } catch (error) {
+          console.error(`✗ Failed to generate markdown for ${doc.componentName}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+  }
+}